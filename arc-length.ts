@@ -0,0 +1,198 @@
+import { Anchor } from "./anchor";
+import { DEFAULT_TOLERANCE } from "./constants";
+import { clamp } from "./math";
+import { Path } from "./path";
+import {
+  Cubic,
+  cubicFromSegment,
+  derivativeOfCubicAtTime,
+  flattenCubic,
+  isSegmentLinear,
+  lengthOfCubicBetweenTimes,
+} from "./segment";
+import { pairs } from "./util";
+import { Vec } from "./vec";
+
+// Number of Newton iterations used to refine a time within a table interval.
+const NEWTON_ITERATIONS = 3;
+
+/**
+ * A table of cumulative lengths along a path, for converting between time and
+ * distance many times without measuring the path again. Lookups are a binary
+ * search followed by a small amount of refinement within one interval.
+ *
+ * @remarks
+ * The table is rebuilt on the next lookup if any anchor or handle of the path
+ * has moved, if anchors have been added or removed, or if the path has been
+ * opened or closed, including changes made to anchors in place. Checking for
+ * changes compares the path with a copy of its coordinates kept by the table,
+ * without allocating.
+ */
+export class PathArcLengthTable {
+  static displayName = "PathArcLengthTable";
+
+  path: Path;
+  tolerance: number;
+
+  private _times: number[] = [];
+  private _distances: number[] = [];
+  private _cubics: (Cubic | undefined)[] = [];
+  private _closed = false;
+  private _coordinates = new Float64Array(0);
+
+  constructor(path: Path, tolerance = DEFAULT_TOLERANCE) {
+    this.path = path;
+    this.tolerance = tolerance;
+    this.rebuild();
+  }
+
+  /**
+   * Returns true if the path has changed since the table was built.
+   */
+  isStale() {
+    const { path, _coordinates } = this;
+    const { anchors } = path;
+    if (path.closed !== this._closed || anchors.length * 6 !== _coordinates.length) return true;
+    for (let i = 0, j = 0, n = anchors.length; i < n; ++i, j += 6) {
+      const { position, handleIn, handleOut } = anchors[i];
+      if (
+        position.x !== _coordinates[j] ||
+        position.y !== _coordinates[j + 1] ||
+        handleIn.x !== _coordinates[j + 2] ||
+        handleIn.y !== _coordinates[j + 3] ||
+        handleOut.x !== _coordinates[j + 4] ||
+        handleOut.y !== _coordinates[j + 5]
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Rebuilds the table if the path has changed since it was built.
+   *
+   * @chainable
+   */
+  update() {
+    if (this.isStale()) this.rebuild();
+    return this;
+  }
+
+  /**
+   * Measures the path and rebuilds the table.
+   *
+   * @chainable
+   */
+  rebuild() {
+    const { path, tolerance } = this;
+    const times = [0];
+    const distances = [0];
+    const cubics: (Cubic | undefined)[] = [];
+
+    pairs(path.anchors, path.closed).forEach((segment, index) => {
+      const startDistance = distances[distances.length - 1];
+      if (isSegmentLinear(segment)) {
+        cubics.push(undefined);
+        times.push(index + 1);
+        distances.push(startDistance + segment[0].position.distance(segment[1].position));
+        return;
+      }
+      const cubic = cubicFromSegment(segment);
+      cubics.push(cubic);
+      let distance = startDistance;
+      let prevTime = 0;
+      for (let time of flattenCubic(cubic, tolerance).times) {
+        distance += lengthOfCubicBetweenTimes(cubic, prevTime, time);
+        times.push(index + time);
+        distances.push(distance);
+        prevTime = time;
+      }
+    });
+
+    this._times = times;
+    this._distances = distances;
+    this._cubics = cubics;
+    this._closed = path.closed;
+    this._coordinates = coordinatesOfAnchors(path.anchors);
+    return this;
+  }
+
+  length() {
+    this.update();
+    const { _distances } = this;
+    return _distances[_distances.length - 1];
+  }
+
+  timeAtDistance(distance: number) {
+    this.update();
+    const { _times, _distances, _cubics } = this;
+    const last = _times.length - 1;
+    if (distance <= 0) return 0;
+    if (distance >= _distances[last]) return _times[last];
+
+    const i = indexOfLastValueAtOrBelow(_distances, distance);
+    const segmentIndex = Math.floor(_times[i]);
+    const startTime = _times[i] - segmentIndex;
+    const endTime = _times[i + 1] - segmentIndex;
+    const intervalLength = _distances[i + 1] - _distances[i];
+    const targetLength = distance - _distances[i];
+    let time = startTime + ((endTime - startTime) * targetLength) / intervalLength;
+
+    const cubic = _cubics[segmentIndex];
+    if (cubic) {
+      const derivative = new Vec();
+      for (let j = 0; j < NEWTON_ITERATIONS; ++j) {
+        const error = lengthOfCubicBetweenTimes(cubic, startTime, time) - targetLength;
+        const speed = derivativeOfCubicAtTime(derivative, cubic, time).length();
+        if (speed === 0) break;
+        time = clamp(time - error / speed, startTime, endTime);
+      }
+    }
+    return segmentIndex + time;
+  }
+
+  distanceAtTime(time: number) {
+    this.update();
+    const { _times, _distances, _cubics } = this;
+    const last = _times.length - 1;
+    if (time <= 0) return 0;
+    if (time >= _times[last]) return _distances[last];
+
+    const i = indexOfLastValueAtOrBelow(_times, time);
+    const segmentIndex = Math.floor(_times[i]);
+    const cubic = _cubics[segmentIndex];
+    if (cubic) {
+      const startTime = _times[i] - segmentIndex;
+      return _distances[i] + lengthOfCubicBetweenTimes(cubic, startTime, time - segmentIndex);
+    }
+    const fraction = (time - _times[i]) / (_times[i + 1] - _times[i]);
+    return _distances[i] + (_distances[i + 1] - _distances[i]) * fraction;
+  }
+}
+
+/**
+ * Returns the largest index in the sorted array `values` whose value is at or
+ * below `value`. Assumes `values[0] <= value`.
+ */
+const indexOfLastValueAtOrBelow = (values: number[], value: number) => {
+  let lo = 0;
+  let hi = values.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (values[mid] <= value) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+const coordinatesOfAnchors = (anchors: Anchor[]) => {
+  const coordinates = new Float64Array(anchors.length * 6);
+  anchors.forEach(({ position, handleIn, handleOut }, i) => {
+    coordinates.set(
+      [position.x, position.y, handleIn.x, handleIn.y, handleOut.x, handleOut.y],
+      i * 6
+    );
+  });
+  return coordinates;
+};
@@ -0,0 +1,193 @@
+import {
+  contoursFromEdges,
+  Curve,
+  CurveGraph,
+  CurveGraphEdge,
+  curveGraphFromCurves,
+  pointsBesideCurve,
+  preparedRegion,
+  regionContainsPoint,
+  reversedEdge,
+} from "./curve-graph";
+import { Geometry } from "./geometry";
+import { Path } from "./path";
+import { cubicFromSegment, isSegmentLinear, lineFromSegment, Segment } from "./segment";
+import { Shape } from "./shape";
+import { pairs } from "./util";
+import { Vec } from "./vec";
+
+/**
+ * The planar arrangement of a set of paths: the closed faces that the paths
+ * enclose between them, as a paint bucket tool would find them. Paths can be
+ * open or closed and can cross each other and themselves. Parts of paths that
+ * don't enclose anything, such as loose ends, are ignored.
+ *
+ * @remarks
+ * Each face is a Shape whose first path is its outer boundary, running
+ * clockwise in y-down coordinates, followed by any holes, running
+ * counter-clockwise. Holes are left where the arrangement has pieces that
+ * aren't connected to the boundary of a face, such as a circle drawn inside a
+ * square. Segments of faces are exact portions of the input segments.
+ */
+export class Arrangement {
+  static displayName = "Arrangement";
+
+  paths: Path[];
+  faces: Shape[];
+
+  constructor(items: Geometry[]) {
+    this.paths = items.flatMap((item) => item.allPaths());
+    const curves = this.paths.flatMap(curvesOfPath);
+    const graph = curveGraphFromCurves(curves);
+
+    // Each edge borders a face on either side, so it's traced once in each
+    // direction. Contours with a face on their left run clockwise and become
+    // outer boundaries. The rest are holes, or are around the outside of the
+    // arrangement and get dropped.
+    const edges = withoutDeadEnds(graph.edges);
+    const contours = contoursFromEdges([...edges, ...edges.map(reversedEdge)], curves);
+    this.faces = shapesFromContours(contours, graph);
+  }
+
+  /**
+   * Returns the face that contains `point`, or undefined if the point is
+   * outside all faces.
+   */
+  faceContainingPoint(point: Vec) {
+    return this.faces.find((face) => {
+      return face.paths.reduce((sum, path) => sum + path.windingNumberAtPoint(point), 0) !== 0;
+    });
+  }
+}
+
+/**
+ * Divides the area filled by `shape` along `cutters`, returning one shape for
+ * each resulting piece. Cutters can be open or closed. Parts of cutters
+ * outside the shape, and dead ends that don't separate one piece from
+ * another, are ignored.
+ */
+export const splitShapeByPaths = (shape: Shape, cutters: Path[]) => {
+  const region = preparedRegion(shape.paths, shape.fillRule);
+  const cutterCurves = cutters.flatMap(curvesOfPath);
+  const curves = [...region.curves, ...cutterCurves];
+  const graph = curveGraphFromCurves(curves);
+
+  // Boundary edges are kept with the inside on their left. Cutter edges with
+  // the inside on both sides are kept in both directions so that each piece
+  // gets one.
+  const boundaryEdges: CurveGraphEdge[] = [];
+  let cuttingEdges: CurveGraphEdge[] = [];
+  for (let edge of graph.edges) {
+    const sides = pointsBesideCurve(edge.curve, graph);
+    if (!sides) continue;
+    const isInsideLeft = regionContainsPoint(region, sides.left);
+    const isInsideRight = regionContainsPoint(region, sides.right);
+    if (isInsideLeft !== isInsideRight) {
+      boundaryEdges.push(isInsideLeft ? edge : reversedEdge(edge));
+    } else if (isInsideLeft && edge.source >= region.curves.length) {
+      cuttingEdges.push(edge);
+    }
+  }
+
+  cuttingEdges = withoutDeadEnds(cuttingEdges, boundaryEdges);
+  const edges = [...boundaryEdges, ...cuttingEdges, ...cuttingEdges.map(reversedEdge)];
+  return shapesFromContours(contoursFromEdges(edges, curves), graph);
+};
+
+/**
+ * Returns the times on `path` where it crosses or touches any of `cutters`.
+ * Unlike `pathIntersections()`, this finds every place where the paths meet
+ * at an anchor of either one.
+ */
+export const timesWherePathMeetsPaths = (path: Path, cutters: Path[]) => {
+  // One curve per segment, so that the source of an edge is its segment index
+  const curves = pairs(path.anchors, path.closed).map(curveFromSegment);
+  const graph = curveGraphFromCurves([...curves, ...cutters.flatMap(curvesOfPath)]);
+  const cutterVertices = new Set<number>();
+  for (let { source, start, end } of graph.edges) {
+    if (source < curves.length) continue;
+    cutterVertices.add(start);
+    cutterVertices.add(end);
+  }
+  const meetings: { time: number; vertex: number }[] = [];
+  for (let { source, start, end, startTime, endTime } of graph.edges) {
+    if (source >= curves.length) continue;
+    if (cutterVertices.has(start)) meetings.push({ time: source + startTime, vertex: start });
+    if (cutterVertices.has(end)) meetings.push({ time: source + endTime, vertex: end });
+  }
+
+  // Edges that meet at a vertex can disagree slightly about its time, so
+  // consecutive meetings at the same vertex are counted once.
+  meetings.sort((a, b) => a.time - b.time);
+  const distinct = meetings.filter((meeting, i) => {
+    return i === 0 || meeting.vertex !== meetings[i - 1].vertex;
+  });
+  if (path.closed && distinct.length > 1) {
+    if (distinct[0].vertex === distinct[distinct.length - 1].vertex) distinct.pop();
+  }
+  return distinct.map(({ time }) => time);
+};
+
+/**
+ * Groups closed contours into shapes. Contours that run clockwise in y-down
+ * coordinates are outer boundaries, and each counter-clockwise contour is a
+ * hole in the smallest outer boundary around it. `graph` is the graph that
+ * the contours were traced from.
+ */
+export const shapesFromContours = (contours: Path[], graph: CurveGraph) => {
+  const outers: { path: Path; area: number; shape: Shape }[] = [];
+  const holes: Path[] = [];
+  for (let path of contours) {
+    const area = path.signedArea();
+    if (area > 0) outers.push({ path, area, shape: new Shape([path]) });
+    else if (area < 0) holes.push(path);
+  }
+  for (let hole of holes) {
+    // Test a point just outside the hole, which is inside the piece it
+    // belongs to, so that pieces sharing an edge with the hole don't count.
+    const point = pointJustOutsideHole(hole, graph);
+    let parent: (typeof outers)[number] | undefined;
+    for (let outer of outers) {
+      if (parent && outer.area >= parent.area) continue;
+      if (outer.path.windingNumberAtPoint(point) !== 0) parent = outer;
+    }
+    parent?.shape.paths.push(hole);
+  }
+  return outers.map(({ shape }) => shape);
+};
+
+/**
+ * Returns `edges` without the ones that lead to a dead end, repeatedly, until
+ * each remaining edge connects to another edge of `edges` or `fixedEdges` at
+ * both of its ends.
+ */
+const withoutDeadEnds = (edges: CurveGraphEdge[], fixedEdges: CurveGraphEdge[] = []) => {
+  while (true) {
+    const degrees = new Map<number, number>();
+    for (let { start, end } of [...fixedEdges, ...edges]) {
+      degrees.set(start, (degrees.get(start) ?? 0) + 1);
+      degrees.set(end, (degrees.get(end) ?? 0) + 1);
+    }
+    const connected = edges.filter(({ start, end }) => {
+      return degrees.get(start)! > 1 && degrees.get(end)! > 1;
+    });
+    if (connected.length === edges.length) return edges;
+    edges = connected;
+  }
+};
+
+const curveFromSegment = (segment: Segment): Curve => {
+  return isSegmentLinear(segment) ? lineFromSegment(segment) : cubicFromSegment(segment);
+};
+
+const curvesOfPath = (path: Path) => {
+  return pairs(path.anchors, path.closed)
+    .map(curveFromSegment)
+    .filter((curve) => curve.some((point) => !point.equals(curve[0])));
+};
+
+const pointJustOutsideHole = (hole: Path, graph: CurveGraph) => {
+  const curve = curvesOfPath(hole)[0];
+  // Holes run counter-clockwise, so the outside is on the left.
+  return pointsBesideCurve(curve, graph)?.left ?? curve[0];
+};
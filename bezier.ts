@@ -1,6 +1,63 @@
 import { Cubic } from "./segment";
 import { Vec } from "./vec";
 
+// Polynomial Roots
+
+const POLYNOMIAL_EPSILON = 1e-12;
+
+/**
+ * Returns the real roots of a*t^2 + b*t + c = 0. If `a` is zero this is solved
+ * as a linear equation instead. Repeated roots are only returned once.
+ */
+export const quadraticRoots = (a: number, b: number, c: number): number[] => {
+  if (Math.abs(a) < POLYNOMIAL_EPSILON) {
+    if (Math.abs(b) < POLYNOMIAL_EPSILON) return [];
+    return [-c / b];
+  }
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return [];
+  if (discriminant === 0) return [-b / (2 * a)];
+  // Numerically stable form, see Numerical Recipes 5.6
+  const q = -0.5 * (b + Math.sign(b || 1) * Math.sqrt(discriminant));
+  return [q / a, c / q];
+};
+
+/**
+ * Returns the real roots of a*t^3 + b*t^2 + c*t + d = 0. If `a` is negligible
+ * compared to the other coefficients this is solved as a quadratic instead.
+ */
+export const cubicRoots = (a: number, b: number, c: number, d: number): number[] => {
+  if (Math.abs(a) <= POLYNOMIAL_EPSILON * Math.max(Math.abs(b), Math.abs(c), Math.abs(d))) {
+    return quadraticRoots(b, c, d);
+  }
+
+  // Cardano's method on the depressed cubic t^3 + p*t + q = 0
+  const A = b / a;
+  const B = c / a;
+  const C = d / a;
+  const offset = -A / 3;
+  const p = (3 * B - A * A) / 3;
+  const q = (2 * A * A * A - 9 * A * B + 27 * C) / 27;
+  const discriminant = (q * q) / 4 + (p * p * p) / 27;
+
+  if (discriminant < 0) {
+    const r = Math.sqrt((-p * p * p) / 27);
+    const phi = Math.acos(Math.max(-1, Math.min(1, -q / (2 * r))));
+    const m = 2 * Math.cbrt(r);
+    return [
+      m * Math.cos(phi / 3) + offset,
+      m * Math.cos((phi + 2 * Math.PI) / 3) + offset,
+      m * Math.cos((phi + 4 * Math.PI) / 3) + offset,
+    ];
+  }
+  if (discriminant === 0) {
+    const u = Math.cbrt(-q / 2);
+    return u === 0 ? [offset] : [2 * u + offset, -u + offset];
+  }
+  const sd = Math.sqrt(discriminant);
+  return [Math.cbrt(-q / 2 + sd) - Math.cbrt(q / 2 + sd) + offset];
+};
+
 // Closest Point Helper Functions
 // Largely from "A Bezier Curve-Based Root-Finder" by Philip J. Schneider
 // Published in "Graphics Gems" (1995)
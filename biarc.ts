@@ -0,0 +1,202 @@
+import { endDirectionOfCurve, startDirectionOfCurve } from "./curve-graph";
+import { atan2 } from "./math";
+import type { ArcOrLinePrimitive, ArcPrimitive, LinePrimitive } from "./path";
+import {
+  Cubic,
+  cubicByTrimmingCubic,
+  cubicsBySplittingCubicAtTime,
+  inflectionTimesOfCubic,
+  pointOnCubicAtTime,
+  positionAndTimeAtClosestPointOnCubic,
+} from "./segment";
+import { Vec } from "./vec";
+
+// Pieces of a cubic that still aren't within tolerance after this many
+// subdivisions are approximated as they are.
+const MAX_SUBDIVISION_DEPTH = 12;
+
+// Number of intervals each piece of a cubic and each arc of its biarc are
+// sampled at to measure the distance between them.
+const ERROR_SAMPLE_COUNT = 16;
+
+// Sampling can miss the farthest point between samples, so biarcs are
+// accepted only within this fraction of the tolerance.
+const TOLERANCE_MARGIN = 0.9;
+
+/**
+ * Returns lines and circular arcs within `tolerance` of `cubic`, in order from
+ * its start to its end. Consecutive arcs meet with the same tangent.
+ *
+ * @remarks
+ * The cubic is first split at its inflections, since an arc can only curve
+ * one way. Each piece is then approximated by a biarc, a pair of arcs that
+ * match the tangents at both ends and meet at a point where their tangents
+ * match too. Pieces whose biarc strays further than `tolerance` are split in
+ * half and tried again. The distance is measured both from points on the
+ * piece to the biarc and from points on the biarc to the piece.
+ */
+export const biarcsFromCubic = (cubic: Cubic, tolerance: number) => {
+  const primitives: ArcOrLinePrimitive[] = [];
+  let startTime = 0;
+  for (let endTime of [...inflectionTimesOfCubic(cubic), 1]) {
+    appendBiarcs(cubicByTrimmingCubic(cubic, startTime, endTime), tolerance, 0, primitives);
+    startTime = endTime;
+  }
+  return primitives;
+};
+
+const appendBiarcs = (
+  cubic: Cubic,
+  tolerance: number,
+  depth: number,
+  primitives: ArcOrLinePrimitive[]
+) => {
+  const [p0, p1, p2, p3] = cubic;
+  if (
+    p1.distanceToLineSegment(p0, p3) <= tolerance &&
+    p2.distanceToLineSegment(p0, p3) <= tolerance
+  ) {
+    // The whole piece is within tolerance of its chord.
+    if (!p0.equals(p3)) primitives.push(linePrimitive(p0, p3));
+    return;
+  }
+  const biarc = biarcOfCubic(cubic);
+  if (depth >= MAX_SUBDIVISION_DEPTH) {
+    primitives.push(...(biarc ?? [linePrimitive(p0, p3)]));
+    return;
+  }
+  if (biarc && distanceBetweenCubicAndPrimitives(cubic, biarc) <= tolerance * TOLERANCE_MARGIN) {
+    primitives.push(...biarc);
+    return;
+  }
+  const [cubic1, cubic2] = cubicsBySplittingCubicAtTime(cubic, 0.5);
+  appendBiarcs(cubic1, tolerance, depth + 1, primitives);
+  appendBiarcs(cubic2, tolerance, depth + 1, primitives);
+};
+
+/**
+ * Returns the biarc that matches the ends and end tangents of `cubic`, with
+ * its two arcs the same distance from their ends to the corners of their
+ * tangent lines. Returns undefined if there isn't one, as when the tangents
+ * at the ends point away from each other.
+ */
+const biarcOfCubic = (cubic: Cubic) => {
+  const p0 = cubic[0];
+  const p3 = cubic[3];
+  const t0 = startDirectionOfCurve(cubic);
+  const t3 = endDirectionOfCurve(cubic);
+  if (t0.isZero() || t3.isZero()) return undefined;
+
+  // Solve |(p3 - d * t3) - (p0 + d * t0)| = 2 * d for d.
+  const v = p3.clone().sub(p0);
+  const vt = v.dot(t0.clone().add(t3));
+  const vv = v.dot(v);
+  const a = 2 * (1 - t0.dot(t3));
+  const d = Math.abs(a) < 1e-12 ? vv / (4 * v.dot(t3)) : (-vt + Math.sqrt(vt * vt + a * vv)) / a;
+  if (!(d > 0 && isFinite(d))) return undefined;
+
+  const joint = Vec.mix(
+    p0.clone().add(t0.clone().mulScalar(d)),
+    p3.clone().sub(t3.clone().mulScalar(d)),
+    0.5
+  );
+  const arc1 = primitiveWithStartTangent(p0, t0, joint);
+  const arc2 = reversedPrimitive(primitiveWithStartTangent(p3, t3.clone().negate(), joint));
+  return [arc1, arc2];
+};
+
+/**
+ * Returns the arc from `start` to `end` that leaves `start` in the direction
+ * of `tangent`, or a line if `end` is straight ahead.
+ */
+const primitiveWithStartTangent = (
+  start: Vec,
+  tangent: Vec,
+  end: Vec
+): LinePrimitive | ArcPrimitive => {
+  const normal = tangent.clone().rotate90();
+  const chord = end.clone().sub(start);
+  const chordLengthSquared = chord.dot(chord);
+  const normalDistance = normal.dot(chord);
+  if (Math.abs(normalDistance) <= 1e-9 * Math.sqrt(chordLengthSquared)) {
+    return linePrimitive(start, end);
+  }
+  const signedRadius = chordLengthSquared / (2 * normalDistance);
+  const center = start.clone().add(normal.mulScalar(signedRadius));
+  const fromCenter = start.clone().sub(center);
+  const toCenter = end.clone().sub(center);
+  let sweepAngle = atan2(crossProduct(fromCenter, toCenter), fromCenter.dot(toCenter));
+  // The sweep goes the way the tangent points, which may be the long way.
+  const isIncreasing = crossProduct(fromCenter, tangent) > 0;
+  if (isIncreasing && sweepAngle < 0) sweepAngle += 360;
+  if (!isIncreasing && sweepAngle > 0) sweepAngle -= 360;
+  return {
+    type: "arc",
+    start: start.clone(),
+    end: end.clone(),
+    center,
+    radius: Math.abs(signedRadius),
+    sweepAngle,
+  };
+};
+
+const linePrimitive = (start: Vec, end: Vec): LinePrimitive => {
+  return { type: "line", start: start.clone(), end: end.clone() };
+};
+
+const reversedPrimitive = (primitive: LinePrimitive | ArcPrimitive) => {
+  const { start, end } = primitive;
+  if (primitive.type === "line") return linePrimitive(end, start);
+  return { ...primitive, start: end, end: start, sweepAngle: -primitive.sweepAngle };
+};
+
+/**
+ * Returns the greatest distance from sampled points on `cubic` to
+ * `primitives`, or from sampled points on `primitives` to `cubic`.
+ */
+const distanceBetweenCubicAndPrimitives = (cubic: Cubic, primitives: ArcOrLinePrimitive[]) => {
+  const point = new Vec();
+  let maxDistance = 0;
+  for (let i = 1; i < ERROR_SAMPLE_COUNT; ++i) {
+    pointOnCubicAtTime(point, cubic, i / ERROR_SAMPLE_COUNT);
+    const distance = Math.min(
+      ...primitives.map((primitive) => distanceToPrimitive(point, primitive))
+    );
+    maxDistance = Math.max(maxDistance, distance);
+  }
+  for (let primitive of primitives) {
+    for (let i = 1; i < ERROR_SAMPLE_COUNT; ++i) {
+      const sample = pointOnPrimitive(primitive, i / ERROR_SAMPLE_COUNT);
+      const { position } = positionAndTimeAtClosestPointOnCubic(sample, cubic);
+      maxDistance = Math.max(maxDistance, sample.distance(position));
+    }
+  }
+  return maxDistance;
+};
+
+const pointOnPrimitive = (primitive: ArcOrLinePrimitive, fraction: number) => {
+  const { start, end } = primitive;
+  if (primitive.type === "line") return Vec.mix(start, end, fraction);
+  const { center, sweepAngle } = primitive;
+  return start
+    .clone()
+    .sub(center)
+    .rotate(sweepAngle * fraction)
+    .add(center);
+};
+
+const distanceToPrimitive = (point: Vec, primitive: ArcOrLinePrimitive) => {
+  const { start, end } = primitive;
+  if (primitive.type === "line") return point.distanceToLineSegment(start, end);
+  const { center, radius, sweepAngle } = primitive;
+  const fromCenter = start.clone().sub(center);
+  const toPoint = point.clone().sub(center);
+  // The angle from the start to the point, measured the way the arc sweeps.
+  let angle =
+    atan2(crossProduct(fromCenter, toPoint), fromCenter.dot(toPoint)) * Math.sign(sweepAngle);
+  if (angle < 0) angle += 360;
+  if (angle <= Math.abs(sweepAngle)) return Math.abs(toPoint.length() - radius);
+  return Math.min(point.distance(start), point.distance(end));
+};
+
+const crossProduct = (a: Vec, b: Vec) => a.x * b.y - a.y * b.x;
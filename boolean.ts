@@ -0,0 +1,262 @@
+import { Anchor } from "./anchor";
+import { DEFAULT_TOLERANCE } from "./constants";
+import {
+  contoursFromEdges,
+  CurveGraphEdge,
+  curveGraphFromCurves,
+  pointsBesideCurve,
+  preparedRegion,
+  regionContainsPoint,
+  RegionFillRule,
+  reversedEdge,
+} from "./curve-graph";
+import { Geometry } from "./geometry";
+import { offsetAnchors } from "./offset";
+import { Path } from "./path";
+import { PathKit } from "./pathkit";
+import { Shape } from "./shape";
+import { FillRule, StrokeCap, StrokeJoin } from "./style";
+import { Vec } from "./vec";
+
+export type BooleanBackend = "pathkit" | "native";
+export type BooleanOperation = "union" | "intersect" | "difference" | "xor";
+
+// Insets are offset to within this fraction of the distance, or the default
+// tolerance if that's smaller.
+const RELATIVE_INSET_TOLERANCE = 1e-3;
+
+// Paths left by insetting with an area smaller than this fraction of the
+// square of the distance are dropped.
+const MIN_RELATIVE_INSET_AREA = 1e-9;
+
+let preferredBooleanBackend: BooleanBackend = "pathkit";
+
+/**
+ * Chooses the implementation used for boolean operations, `Shape.stroke()`
+ * and `Group.flatten()`. "pathkit" uses the PathKit WASM module. "native"
+ * works directly on the cubic segments of paths, so results keep the exact
+ * geometry of their inputs.
+ *
+ * @remarks
+ * If PathKit hasn't been initialized with `initCuttleGeometry()`, the native
+ * backend is used regardless of this setting.
+ */
+export const setBooleanBackend = (backend: BooleanBackend) => {
+  preferredBooleanBackend = backend;
+};
+
+/**
+ * Returns the backend that boolean operations will use right now.
+ */
+export const activeBooleanBackend = (): BooleanBackend => {
+  if (preferredBooleanBackend === "pathkit" && PathKit) return "pathkit";
+  return "native";
+};
+
+/**
+ * Paths that are filled together under one fill rule, such as the paths of a
+ * Shape. Paths are treated as closed.
+ */
+export interface BooleanRegion {
+  paths: Path[];
+  fillRule: RegionFillRule;
+}
+
+/**
+ * Returns one region for each Shape and orphaned Path in `item`, using
+ * `fillRule` if given or otherwise each item's own fill rule.
+ */
+export const booleanRegionsFromGeometry = (item: Geometry, fillRule?: FillRule) => {
+  return item.allShapesAndOrphanedPaths().map(
+    (shapeOrPath): BooleanRegion => ({
+      paths: shapeOrPath instanceof Shape ? shapeOrPath.paths : [shapeOrPath],
+      fillRule: fillRule ?? shapeOrPath.fillRule,
+    })
+  );
+};
+
+/**
+ * Combines `operands` with `operation`. Each operand covers the area covered
+ * by any of its regions. The difference subtracts all other operands from the
+ * first, and the xor covers the area covered by an odd number of operands.
+ *
+ * @remarks
+ * The resulting paths are closed and run clockwise in y-down coordinates
+ * around filled areas and counter-clockwise around holes, so the result can
+ * be filled with either fill rule. Segments of the result are exact portions
+ * of the input segments.
+ */
+export const performNativeBooleanOperation = (
+  operands: BooleanRegion[][],
+  operation: BooleanOperation
+) => {
+  const preparedOperands = operands.map((regions) => {
+    return regions.map(({ paths, fillRule }) => preparedRegion(paths, fillRule));
+  });
+  const curves = preparedOperands.flatMap((regions) => regions.flatMap(({ curves }) => curves));
+
+  const isInside = (point: Vec) => {
+    const insides = preparedOperands.map((regions) => {
+      return regions.some((region) => regionContainsPoint(region, point));
+    });
+    if (operation === "union") return insides.some((inside) => inside);
+    if (operation === "intersect") return insides.length > 0 && insides.every((inside) => inside);
+    if (operation === "xor") return insides.filter((inside) => inside).length % 2 === 1;
+    return insides.length > 0 && insides[0] && !insides.slice(1).some((inside) => inside);
+  };
+
+  // Keep the edges that separate the inside of the result from the outside,
+  // turned so that the inside is on their left.
+  const graph = curveGraphFromCurves(curves);
+  const keptEdges: CurveGraphEdge[] = [];
+  for (let edge of graph.edges) {
+    const sides = pointsBesideCurve(edge.curve, graph);
+    if (!sides) continue;
+    const isInsideLeft = isInside(sides.left);
+    if (isInsideLeft === isInside(sides.right)) continue;
+    keptEdges.push(isInsideLeft ? edge : reversedEdge(edge));
+  }
+
+  return new Shape(contoursFromEdges(keptEdges, curves));
+};
+
+export const nativeBooleanUnion = (items: Geometry[], fillRule?: FillRule) => {
+  const regions = items.flatMap((item) => booleanRegionsFromGeometry(item, fillRule));
+  return performNativeBooleanOperation([regions], "union");
+};
+
+export const nativeBooleanIntersect = (items: Geometry[]) => {
+  const operands = items.map((item) => booleanRegionsFromGeometry(item));
+  return performNativeBooleanOperation(operands, "intersect");
+};
+
+export const nativeBooleanDifference = (items: Geometry[]) => {
+  const operands = items.map((item) => booleanRegionsFromGeometry(item));
+  return performNativeBooleanOperation(operands, "difference");
+};
+
+export const nativeBooleanXor = (items: Geometry[]) => {
+  const operands = items.map((item) => booleanRegionsFromGeometry(item));
+  return performNativeBooleanOperation(operands, "xor");
+};
+
+//
+// Stroke and inset
+//
+
+/**
+ * Returns the area covered by stroking the paths of `item` with a stroke of
+ * the given `width`, `cap`, `join` and `miterLimit`.
+ */
+export const nativeStroke = (
+  item: Geometry,
+  width: number,
+  cap: StrokeCap,
+  join: StrokeJoin,
+  miterLimit: number
+) => {
+  const distance = width / 2;
+  const outlines = item
+    .allPaths()
+    .flatMap((path) => strokeOutlinesOfPath(path, distance, cap, join, miterLimit));
+  return performNativeBooleanOperation([[{ paths: outlines, fillRule: "nonzero" }]], "union");
+};
+
+/**
+ * Returns the area of `shape` that is at least `distance` from its boundary.
+ * Corners that the boundary moves away from are joined with `join`.
+ */
+export const nativeInset = (
+  shape: Shape,
+  distance: number,
+  join: StrokeJoin,
+  miterLimit: number
+) => {
+  // After the union, every path has the inside on its left, which is the
+  // direction that offsetting by a positive distance moves it in.
+  const region = { paths: shape.paths, fillRule: shape.fillRule };
+  const { paths } = performNativeBooleanOperation([[region]], "union");
+  const tolerance = Math.min(DEFAULT_TOLERANCE, distance * RELATIVE_INSET_TOLERANCE);
+  const offsets = paths.map((path) => {
+    const options = { join, miterLimit, tolerance };
+    return new Path(offsetAnchors(path, distance, options, "corner"), true);
+  });
+  const positiveRegion: BooleanRegion = { paths: offsets, fillRule: "positive" };
+  const inset = performNativeBooleanOperation([[positiveRegion]], "union");
+
+  // Offsetting a curve further than its radius of curvature leaves a loop
+  // that winds the same way as the rest, so paths that come closer to the
+  // original boundary than `distance` are dropped. Parts that shrink to
+  // nothing can also leave slivers without any area.
+  const minDistance = distance - 2 * tolerance;
+  const minArea = distance * distance * MIN_RELATIVE_INSET_AREA;
+  inset.paths = inset.paths.filter((path) => {
+    if (Math.abs(path.signedArea()) <= minArea) return false;
+    return path.anchors.every(({ position }) => {
+      const closest = shape.closestPointWithinDistanceToPoint(minDistance, position);
+      return !(closest.distance < minDistance);
+    });
+  });
+  return inset;
+};
+
+/**
+ * Returns closed paths whose nonzero fill is the stroke of `path`. They may
+ * overlap themselves where the stroke does.
+ */
+const strokeOutlinesOfPath = (
+  path: Path,
+  distance: number,
+  cap: StrokeCap,
+  join: StrokeJoin,
+  miterLimit: number
+) => {
+  const { anchors, closed } = path;
+  if (anchors.length < 2 || distance <= 0) return [];
+  const options = { join, miterLimit };
+  const left = offsetAnchors(path, distance, options);
+  const right = new Path(offsetAnchors(path, -distance, options)).reverse().anchors;
+  if (closed) {
+    return [new Path(left, true), new Path(right, true)];
+  }
+
+  const lastTime = anchors.length - 1;
+  const startTangent = path.tangentAtTime(0);
+  const endTangent = path.tangentAtTime(lastTime);
+  const outline: Anchor[] = [...left];
+  appendCap(outline, right[0], anchors[lastTime].position, endTangent, distance, cap);
+  outline.push(...right);
+  appendCap(outline, left[0], anchors[0].position, startTangent.negate(), distance, cap);
+  return [new Path(outline, true)];
+};
+
+/**
+ * Appends the anchors of a cap that goes around `center` from the last anchor
+ * of `anchors` to `next`, extending in the direction of `tangent`.
+ */
+const appendCap = (
+  anchors: Anchor[],
+  next: Anchor,
+  center: Vec,
+  tangent: Vec,
+  distance: number,
+  cap: StrokeCap
+) => {
+  const last = anchors[anchors.length - 1];
+  if (cap === "butt" || tangent.isZero()) return;
+  if (cap === "square") {
+    const extension = tangent.clone().normalize().mulScalar(distance);
+    anchors.push(
+      new Anchor(last.position.clone().add(extension)),
+      new Anchor(next.position.clone().add(extension))
+    );
+    return;
+  }
+  // The cap turns clockwise (in y-up coordinates) from the left side of the
+  // stroke to the right.
+  const startAngle = last.position.clone().sub(center).angle();
+  const arcAnchors = Path.fromArc(center, distance, startAngle, startAngle - 180).anchors;
+  last.handleOut = arcAnchors[0].handleOut;
+  next.handleIn = arcAnchors[arcAnchors.length - 1].handleIn;
+  anchors.push(...arcAnchors.slice(1, -1));
+};
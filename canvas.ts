@@ -19,7 +19,7 @@ export const styleContainsPoint = (geom: Path | Shape, point: Vec) => {
 
   dummyCanvasCtx.beginPath();
   geom.toCanvasPath(dummyCanvasCtx);
-  const isInPath = dummyCanvasCtx.isPointInPath(point.x, point.y, "evenodd");
+  const isInPath = dummyCanvasCtx.isPointInPath(point.x, point.y, geom.fillRule);
 
   if (hasVisibleFill && isInPath) return true;
 
@@ -59,7 +59,7 @@ export const paintToCanvas = (
 
   if (fill) {
     ctx.fillStyle = fill.color.toCSSString();
-    ctx.fill("evenodd");
+    ctx.fill(item.fillRule);
   }
 
   if (stroke) {
@@ -80,7 +80,7 @@ export const paintToCanvas = (
 
     if (nonStandardAlignment) {
       ctx.save();
-      ctx.clip("evenodd");
+      ctx.clip(item.fillRule);
       ctx.stroke();
       ctx.restore();
     } else {
@@ -0,0 +1,124 @@
+import { nativeInset } from "./boolean";
+import { Path } from "./path";
+import { Shape } from "./shape";
+import { StrokeJoin } from "./style";
+import { Vec } from "./vec";
+
+/**
+ * Returns the boundaries of `shape` inset by `step`, then by twice `step`,
+ * and so on until nothing is left or there are `maxCount` levels. Each level
+ * holds the closed paths at that depth.
+ */
+export const concentricContours = (
+  shape: Shape,
+  step: number,
+  maxCount: number,
+  join: StrokeJoin,
+  miterLimit: number
+) => {
+  const levels: Path[][] = [];
+  let current = shape;
+  while (levels.length < maxCount) {
+    current = nativeInset(current, step, join, miterLimit);
+    if (current.paths.length === 0) break;
+    levels.push(current.paths);
+  }
+  return levels;
+};
+
+/**
+ * Joins the contours of `levels` into open paths that run around each contour
+ * in turn, stepping inward to the next level at the end of each loop. Where a
+ * contour has more than one contour nested directly inside it, such as where
+ * a shape is pinched in two, the path continues into the nearest one and the
+ * others start paths of their own.
+ */
+export const spiralsFromContours = (levels: Path[][]) => {
+  // The parent of each contour is the one on the level before that's closest
+  // to it.
+  const children = levels.map((contours) => contours.map((): Path[] => []));
+  levels.forEach((contours, depth) => {
+    if (depth === 0) return;
+    for (let contour of contours) {
+      const point = contour.anchors[0].position;
+      let parentIndex = 0;
+      let parentDistance = Infinity;
+      levels[depth - 1].forEach((parent, index) => {
+        const { distance } = parent.closestPointWithinDistanceToPoint(Infinity, point);
+        if (distance < parentDistance) {
+          parentIndex = index;
+          parentDistance = distance;
+        }
+      });
+      children[depth - 1][parentIndex].push(contour);
+    }
+  });
+
+  const depthOfContour = new Map<Path, number>();
+  levels.forEach((contours, depth) => {
+    for (let contour of contours) depthOfContour.set(contour, depth);
+  });
+
+  const visited = new Set<Path>();
+  const spirals: Path[] = [];
+  levels.forEach((contours) => {
+    for (let first of contours) {
+      if (visited.has(first)) continue;
+      const loops: Path[] = [];
+      let contour: Path | undefined = first;
+      let start = first.anchors[0].position;
+      while (contour) {
+        visited.add(contour);
+        loops.push(loopStartingNearPoint(contour, start));
+        start = loops[loops.length - 1].anchors[0].position;
+        const depth = depthOfContour.get(contour)!;
+        const index = levels[depth].indexOf(contour);
+        contour = nearestContour(
+          children[depth][index].filter((child) => !visited.has(child)),
+          start
+        );
+      }
+      spirals.push(joinedLoops(loops));
+    }
+  });
+  return spirals;
+};
+
+const nearestContour = (contours: Path[], point: Vec) => {
+  let nearest: Path | undefined;
+  let nearestDistance = Infinity;
+  for (let contour of contours) {
+    const { distance } = contour.closestPointWithinDistanceToPoint(Infinity, point);
+    if (distance < nearestDistance) {
+      nearest = contour;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+/**
+ * Returns `contour` as an open path that starts and ends at the point on it
+ * closest to `point`.
+ */
+const loopStartingNearPoint = (contour: Path, point: Vec) => {
+  const { time } = contour.closestPointWithinDistanceToPoint(Infinity, point);
+  const [loop] = contour.clone().splitAtTimes([time ?? 0]);
+  if (loop.closed) {
+    loop.anchors.push(loop.anchors[0].clone());
+    loop.closed = false;
+  }
+  return loop;
+};
+
+/**
+ * Joins open `loops` end to start with straight segments.
+ */
+const joinedLoops = (loops: Path[]) => {
+  const anchors = loops.flatMap((loop) => loop.anchors);
+  for (let loop of loops) {
+    loop.anchors[0].handleIn = new Vec();
+    loop.anchors[loop.anchors.length - 1].handleOut = new Vec();
+  }
+  return new Path(anchors);
+};
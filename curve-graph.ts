@@ -0,0 +1,471 @@
+import { Anchor } from "./anchor";
+import { BoundingBox } from "./bounding-box";
+import { Path } from "./path";
+import {
+  Cubic,
+  cubicByTrimmingCubic,
+  cubicFromSegment,
+  derivativeOfCubicAtTime,
+  isSegmentLinear,
+  Line,
+  lineFromSegment,
+  pointOnCubicAtTime,
+  positionAndTimeAtClosestPointOnCubic,
+  positionAndTimeAtClosestPointOnLine,
+  primitivePrimitiveIntersections,
+  windingContributionOfCubic,
+  windingContributionOfLine,
+} from "./segment";
+import { FillRule } from "./style";
+import { pairs } from "./util";
+import { Vec } from "./vec";
+
+export type Curve = Line | Cubic;
+
+// Vertices closer than this fraction of the size of the input are merged.
+const RELATIVE_EPSILON = 1e-9;
+
+// Edges are classified by testing points this fraction of the size of the
+// input to either side of them.
+const RELATIVE_CLASSIFICATION_DISTANCE = 1e-6;
+
+// Lines whose unit directions have a cross product smaller than this are
+// merged where they meet.
+const COLLINEAR_EPSILON = 1e-9;
+
+// Crossings within this multiple of epsilon of a curve's end point are moved
+// to the end point.
+const END_POINT_SNAPPING_FACTOR = 1000;
+
+export interface CurveGraphEdge {
+  /** The portion of the source curve covered by this edge. Its end points are
+   * exactly at the positions of the start and end vertices. */
+  curve: Curve;
+  start: number;
+  end: number;
+  /** Index of the input curve that this edge was cut from */
+  source: number;
+  startTime: number;
+  endTime: number;
+}
+
+export interface CurveGraph {
+  vertices: Vec[];
+  edges: CurveGraphEdge[];
+  /** The diagonal of the bounding box of the input curves */
+  size: number;
+  /** Points closer together than this were merged */
+  epsilon: number;
+}
+
+/**
+ * Cuts `curves` wherever they cross or touch each other and returns the
+ * resulting planar graph. Points that are very close together relative to
+ * the size of the input become a single vertex, and where curves overlap only
+ * one edge is kept for the overlapping portion.
+ *
+ * @remarks
+ * Degenerate curves whose points are all at the same vertex don't produce
+ * any edges.
+ */
+export const curveGraphFromCurves = (curves: Curve[]): CurveGraph => {
+  const box = BoundingBox.fromPoints(curves.flat());
+  const size = box ? box.max.distance(box.min) : 0;
+  if (size === 0) return { vertices: [], edges: [], size, epsilon: 0 };
+  const epsilon = size * RELATIVE_EPSILON;
+
+  const vertices: Vec[] = [];
+  const grid = new Map<string, number[]>();
+  const vertexAtPosition = (position: Vec) => {
+    const gx = Math.floor(position.x / epsilon);
+    const gy = Math.floor(position.y / epsilon);
+    for (let x = gx - 1; x <= gx + 1; ++x) {
+      for (let y = gy - 1; y <= gy + 1; ++y) {
+        for (let index of grid.get(`${x},${y}`) ?? []) {
+          if (vertices[index].distance(position) <= epsilon) return index;
+        }
+      }
+    }
+    const index = vertices.length;
+    vertices.push(position.clone());
+    const key = `${gx},${gy}`;
+    const cell = grid.get(key);
+    if (cell) cell.push(index);
+    else grid.set(key, [index]);
+    return index;
+  };
+
+  const splits = curves.map((curve) => [
+    { time: 0, vertex: vertexAtPosition(curve[0]) },
+    { time: 1, vertex: vertexAtPosition(curve[curve.length - 1]) },
+  ]);
+  const boxes = curves.map((curve) => BoundingBox.fromPoints(curve)!.expandScalar(epsilon));
+
+  // Crossings
+  for (let i = 0, n = curves.length; i < n; ++i) {
+    for (let j = i + 1; j < n; ++j) {
+      if (!boxes[i].overlapsBoundingBox(boxes[j])) continue;
+      for (let { time1, time2 } of primitivePrimitiveIntersections(curves[i], curves[j])) {
+        time1 = Math.min(Math.max(time1, 0), 1);
+        time2 = Math.min(Math.max(time2, 0), 1);
+        const position = pointOnCurveAtTime(curves[i], time1);
+        // Crossings where curves meet at a shallow angle are found less
+        // precisely, so a crossing near an end point is taken to be at it.
+        const ends = [splits[i][0], splits[i][1], splits[j][0], splits[j][1]];
+        const end = ends.find(({ vertex }) => {
+          return vertices[vertex].distance(position) <= epsilon * END_POINT_SNAPPING_FACTOR;
+        });
+        const vertex = end ? end.vertex : vertexAtPosition(position);
+        splits[i].push({ time: snappedTime(time1, vertex, splits[i]), vertex });
+        splits[j].push({ time: snappedTime(time2, vertex, splits[j]), vertex });
+      }
+    }
+  }
+
+  // Vertices that touch a curve without crossing it, including where curves
+  // overlap and the crossing routines don't report anything.
+  for (let vertex = 0, n = vertices.length; vertex < n; ++vertex) {
+    const position = vertices[vertex];
+    curves.forEach((curve, i) => {
+      if (!boxes[i].containsPoint(position)) return;
+      const closest = positionAndTimeAtClosestPointOnCurve(position, curve);
+      if (closest.time <= 0 || closest.time >= 1) return;
+      if (closest.position.distance(position) > epsilon) return;
+      splits[i].push({ time: closest.time, vertex });
+    });
+  }
+
+  const edges: CurveGraphEdge[] = [];
+  const edgesByVertices = new Map<string, CurveGraphEdge[]>();
+  const addEdge = (
+    source: number,
+    startTime: number,
+    endTime: number,
+    start: number,
+    end: number
+  ) => {
+    const curve = curveBetweenTimes(
+      curves[source],
+      startTime,
+      endTime,
+      vertices[start],
+      vertices[end]
+    );
+    const key = start < end ? `${start},${end}` : `${end},${start}`;
+    const existing = edgesByVertices.get(key);
+    if (existing?.some((edge) => curvesCoincide(edge.curve, curve, epsilon))) return;
+    const edge = { curve, start, end, source, startTime, endTime };
+    if (existing) existing.push(edge);
+    else edgesByVertices.set(key, [edge]);
+    edges.push(edge);
+  };
+
+  splits.forEach((curveSplits, source) => {
+    curveSplits.sort((a, b) => a.time - b.time);
+    let prev = curveSplits[0];
+    for (let i = 1, n = curveSplits.length; i < n; ++i) {
+      const next = curveSplits[i];
+      if (next.vertex !== prev.vertex) {
+        addEdge(source, prev.time, next.time, prev.vertex, next.vertex);
+      } else if (next.time > prev.time) {
+        // A portion of a curve that returns to where it started, such as a
+        // loop, needs a vertex in the middle to become two edges.
+        const curve = curveBetweenTimes(curves[source], prev.time, next.time);
+        const position = vertices[prev.vertex];
+        if (curve.some((point) => point.distance(position) > epsilon)) {
+          const midTime = (prev.time + next.time) / 2;
+          const mid = vertexAtPosition(pointOnCurveAtTime(curves[source], midTime));
+          if (mid !== prev.vertex) {
+            addEdge(source, prev.time, midTime, prev.vertex, mid);
+            addEdge(source, midTime, next.time, mid, next.vertex);
+          }
+        }
+      }
+      prev = next;
+    }
+  });
+
+  return { vertices, edges, size, epsilon };
+};
+
+/**
+ * Returns two points just to the left and right of the middle of `curve`,
+ * where left is the direction of `tangent.rotate90()`, for classifying the
+ * areas on either side of an edge of `graph`. Returns undefined if the curve
+ * has no direction.
+ */
+export const pointsBesideCurve = (curve: Curve, { size, epsilon }: CurveGraph) => {
+  let tangent = curve[curve.length - 1].clone().sub(curve[0]);
+  if (curve.length === 4) {
+    const derivative = derivativeOfCubicAtTime(new Vec(), curve, 0.5);
+    if (!derivative.isZero()) tangent = derivative;
+  }
+  if (tangent.isZero()) return undefined;
+  const chordLength = curve[0].distance(curve[curve.length - 1]);
+  const distance = Math.max(
+    Math.min(chordLength / 4, size * RELATIVE_CLASSIFICATION_DISTANCE),
+    epsilon * 100
+  );
+  const offset = tangent.normalize().rotate90().mulScalar(distance);
+  const position = pointOnCurveAtTime(curve, 0.5);
+  return { left: position.clone().add(offset), right: position.sub(offset) };
+};
+
+//
+// Regions
+//
+
+/**
+ * A fill rule for regions. Besides the fill rules of shapes, "positive" fills
+ * only where the winding number is greater than zero, which removes the
+ * loops left over from offsetting paths that have the inside on their left.
+ */
+export type RegionFillRule = FillRule | "positive";
+
+/**
+ * The curves of paths that are filled together under one fill rule, ready
+ * for testing many points against.
+ */
+export interface PreparedRegion {
+  curves: Curve[];
+  box: BoundingBox | null;
+  fillRule: RegionFillRule;
+}
+
+/**
+ * Returns a region for `paths` under `fillRule`. Paths are treated as closed.
+ */
+export const preparedRegion = (paths: Path[], fillRule: RegionFillRule): PreparedRegion => {
+  const curves: Curve[] = [];
+  for (let path of paths) {
+    if (path.anchors.length < 2) continue;
+    for (let segment of pairs(path.anchors, true)) {
+      const curve = isSegmentLinear(segment) ? lineFromSegment(segment) : cubicFromSegment(segment);
+      if (curve.some((point) => !point.equals(curve[0]))) curves.push(curve);
+    }
+  }
+  return { curves, box: BoundingBox.fromPoints(curves.flat()), fillRule };
+};
+
+export const regionContainsPoint = (region: PreparedRegion, point: Vec) => {
+  if (!region.box || !region.box.containsPoint(point)) return false;
+  let winding = 0;
+  for (let curve of region.curves) {
+    if (curve.length === 2) winding += windingContributionOfLine(point, curve[0], curve[1]);
+    else winding += windingContributionOfCubic(point, curve);
+  }
+  if (region.fillRule === "positive") return winding > 0;
+  return region.fillRule === "nonzero" ? winding !== 0 : winding % 2 !== 0;
+};
+
+//
+// Contours
+//
+
+export const reversedEdge = (edge: CurveGraphEdge): CurveGraphEdge => {
+  return {
+    curve: reversedCurve(edge.curve),
+    start: edge.end,
+    end: edge.start,
+    source: edge.source,
+    startTime: edge.endTime,
+    endTime: edge.startTime,
+  };
+};
+
+/**
+ * Links directed edges into closed paths. Where several edges leave the same
+ * vertex, the one turning most sharply toward the inside is taken, so that
+ * areas that only touch at a point become separate paths.
+ */
+export const contoursFromEdges = (edges: CurveGraphEdge[], curves: Curve[]) => {
+  const outgoing = new Map<number, CurveGraphEdge[]>();
+  for (let edge of edges) {
+    const list = outgoing.get(edge.start);
+    if (list) list.push(edge);
+    else outgoing.set(edge.start, [edge]);
+  }
+
+  const used = new Set<CurveGraphEdge>();
+  const paths: Path[] = [];
+  for (let first of edges) {
+    if (used.has(first)) continue;
+    used.add(first);
+    const contour = [first];
+    let edge = first;
+    while (edge.end !== first.start) {
+      const candidates = (outgoing.get(edge.end) ?? []).filter((e) => !used.has(e));
+      const next = nextEdgeInContour(edge, candidates);
+      if (!next) break;
+      used.add(next);
+      contour.push(next);
+      edge = next;
+    }
+    // A single edge that doesn't close is left over from numerical error.
+    if (contour.length > 1) paths.push(pathFromEdges(mergeContinuingEdges(contour, curves)));
+  }
+  return paths;
+};
+
+const nextEdgeInContour = (edge: CurveGraphEdge, candidates: CurveGraphEdge[]) => {
+  // Measure the clockwise angle from the direction back along the incoming
+  // edge to each outgoing edge. The smallest is the sharpest turn inward.
+  const back = endDirectionOfCurve(edge.curve).negate();
+  let bestEdge: CurveGraphEdge | undefined;
+  let bestAngle = Infinity;
+  for (let candidate of candidates) {
+    const direction = startDirectionOfCurve(candidate.curve);
+    const cross = direction.x * back.y - direction.y * back.x;
+    let angle = Math.atan2(cross, direction.dot(back));
+    if (angle <= 0) angle += 2 * Math.PI;
+    if (angle < bestAngle) {
+      bestAngle = angle;
+      bestEdge = candidate;
+    }
+  }
+  return bestEdge;
+};
+
+/**
+ * Joins consecutive edges that are adjacent portions of the same input curve,
+ * or lines that continue in the same direction, back into one edge.
+ */
+const mergeContinuingEdges = (contour: CurveGraphEdge[], curves: Curve[]) => {
+  const continues = (a: CurveGraphEdge, b: CurveGraphEdge) => {
+    if (a.curve.length === 2 && b.curve.length === 2) {
+      const directionA = endDirectionOfCurve(a.curve);
+      const directionB = startDirectionOfCurve(b.curve);
+      const cross = directionA.x * directionB.y - directionA.y * directionB.x;
+      return Math.abs(cross) <= COLLINEAR_EPSILON && directionA.dot(directionB) > 0;
+    }
+    return (
+      a.source === b.source &&
+      a.endTime === b.startTime &&
+      Math.sign(a.endTime - a.startTime) === Math.sign(b.endTime - b.startTime)
+    );
+  };
+  const merged = (a: CurveGraphEdge, b: CurveGraphEdge): CurveGraphEdge => {
+    if (a.curve.length === 2 && b.curve.length === 2) {
+      return { ...a, curve: [a.curve[0], b.curve[1]], end: b.end, endTime: b.endTime };
+    }
+    const curve = curveBetweenTimes(
+      curves[a.source],
+      a.startTime,
+      b.endTime,
+      a.curve[0],
+      b.curve[b.curve.length - 1]
+    );
+    return { ...a, curve, end: b.end, endTime: b.endTime };
+  };
+
+  const result = contour.slice();
+  while (result.length > 2 && continues(result[result.length - 1], result[0])) {
+    result[0] = merged(result.pop()!, result[0]);
+  }
+  for (let i = 0; i + 1 < result.length && result.length > 2; ) {
+    if (continues(result[i], result[i + 1])) {
+      result.splice(i, 2, merged(result[i], result[i + 1]));
+    } else {
+      ++i;
+    }
+  }
+  return result;
+};
+
+const pathFromEdges = (edges: CurveGraphEdge[]) => {
+  const anchors = edges.map((edge, i) => {
+    const { curve } = edge;
+    const prev = edges[(i + edges.length - 1) % edges.length].curve;
+    const anchor = new Anchor(curve[0].clone());
+    if (curve.length === 4) anchor.handleOut = curve[1].clone().sub(curve[0]);
+    if (prev.length === 4) anchor.handleIn = prev[2].clone().sub(prev[3]);
+    return anchor;
+  });
+  return new Path(anchors, true);
+};
+
+//
+// Curves
+//
+
+/**
+ * Returns the portion of `curve` between `startTime` and `endTime`, reversed
+ * if `endTime` is before `startTime`. If `startPosition` and `endPosition` are
+ * given, the end points are moved to them, along with their handles.
+ */
+export const curveBetweenTimes = (
+  curve: Curve,
+  startTime: number,
+  endTime: number,
+  startPosition?: Vec,
+  endPosition?: Vec
+): Curve => {
+  if (curve.length === 2) {
+    return [
+      startPosition?.clone() ?? Vec.mix(curve[0], curve[1], startTime),
+      endPosition?.clone() ?? Vec.mix(curve[0], curve[1], endTime),
+    ];
+  }
+  const cubic = cubicByTrimmingCubic(curve, startTime, endTime).map((p) => p.clone()) as Cubic;
+  if (startPosition) {
+    cubic[1].add(startPosition).sub(cubic[0]);
+    cubic[0].copy(startPosition);
+  }
+  if (endPosition) {
+    cubic[2].add(endPosition).sub(cubic[3]);
+    cubic[3].copy(endPosition);
+  }
+  return cubic;
+};
+
+export const pointOnCurveAtTime = (curve: Curve, time: number) => {
+  if (curve.length === 2) return Vec.mix(curve[0], curve[1], time);
+  return pointOnCubicAtTime(new Vec(), curve, time);
+};
+
+/**
+ * Returns the unit direction in which `curve` leaves its start point, or a
+ * zero vector if the curve is degenerate.
+ */
+export const startDirectionOfCurve = (curve: Curve) => {
+  for (let i = 1; i < curve.length; ++i) {
+    if (!curve[i].equals(curve[0])) return curve[i].clone().sub(curve[0]).normalize();
+  }
+  return new Vec();
+};
+
+/**
+ * Returns the unit direction in which `curve` arrives at its end point, or a
+ * zero vector if the curve is degenerate.
+ */
+export const endDirectionOfCurve = (curve: Curve) => {
+  const last = curve[curve.length - 1];
+  for (let i = curve.length - 2; i >= 0; --i) {
+    if (!curve[i].equals(last)) return last.clone().sub(curve[i]).normalize();
+  }
+  return new Vec();
+};
+
+export const reversedCurve = (curve: Curve) => {
+  return curve.slice().reverse() as Curve;
+};
+
+/**
+ * Returns the time of the end point of a curve if it's at `vertex`, or `time`
+ * otherwise. `splits` are those of the curve, starting with its end points.
+ */
+const snappedTime = (time: number, vertex: number, splits: { vertex: number }[]) => {
+  if (splits[0].vertex === vertex) return 0;
+  if (splits[1].vertex === vertex) return 1;
+  return time;
+};
+
+const positionAndTimeAtClosestPointOnCurve = (point: Vec, curve: Curve) => {
+  if (curve.length === 2) return positionAndTimeAtClosestPointOnLine(point, curve);
+  return positionAndTimeAtClosestPointOnCubic(point, curve);
+};
+
+const curvesCoincide = (curve1: Curve, curve2: Curve, epsilon: number) => {
+  const mid = pointOnCurveAtTime(curve1, 0.5);
+  return positionAndTimeAtClosestPointOnCurve(mid, curve2).position.distance(mid) <= epsilon;
+};
@@ -0,0 +1,268 @@
+import { Geometry } from "./geometry";
+import { Path } from "./path";
+import { Shape } from "./shape";
+import { rotateArray } from "./util";
+import { Vec } from "./vec";
+
+// Improvement passes over the whole order stop after this many, even if the
+// last one still found something to improve.
+const MAX_IMPROVEMENT_PASSES = 50;
+
+// Changes in travel smaller than this aren't counted as improvements.
+const MIN_IMPROVEMENT = 1e-9;
+
+/**
+ * Orders the paths of `geometry` for cutting, so that the cutting head
+ * travels less between paths and, with `insideFirst`, paths inside a closed
+ * path are cut before it. Returns copies of the paths in the order to cut
+ * them, possibly reversed or starting from a different anchor, along with
+ * the travel distance before and after.
+ *
+ * @remarks
+ * Paths are ordered by repeatedly moving to the nearest path that can be cut
+ * next, and the order is then improved by reversing runs of paths (2-opt)
+ * wherever that shortens the travel without cutting a path before the paths
+ * inside it. Paths from a Shape take the style of the Shape.
+ */
+export const planCutOrder = (geometry: Geometry, options: CutOrderOptions = {}): CutOrderResult => {
+  const {
+    insideFirst = true,
+    startPoint = new Vec(),
+    allowReverse = true,
+    allowRotateStart = true,
+  } = options;
+
+  const paths = geometry.allShapesAndOrphanedPaths().flatMap((item) => {
+    if (item instanceof Shape) return item.paths.map((path) => path.clone().copyStyle(item));
+    return [item.clone()];
+  });
+  const jobs: CutJob[] = paths
+    .filter((path) => path.anchors.length > 0)
+    .map((path) => ({ path, startIndex: 0, isReversed: false }));
+  const travelBefore = travelDistance(paths, startPoint);
+
+  const predecessors = insideFirst ? pathsInsidePaths(jobs.map(({ path }) => path)) : [];
+  const order = nearestNeighborOrder(
+    jobs,
+    predecessors,
+    startPoint,
+    allowReverse,
+    allowRotateStart
+  );
+  improveOrder(order, jobs, predecessors, startPoint, allowReverse);
+  chooseEntries(order, startPoint, allowReverse, allowRotateStart);
+
+  const orderedPaths = order.map(({ path, startIndex, isReversed }) => {
+    if (path.closed && startIndex > 0) rotateArray(path.anchors, startIndex);
+    if (isReversed) path.reverse();
+    return path;
+  });
+  return {
+    paths: orderedPaths,
+    travelBefore,
+    travelAfter: travelDistance(orderedPaths, startPoint),
+  };
+};
+
+export interface CutOrderOptions {
+  insideFirst?: boolean;
+  startPoint?: Vec;
+  allowReverse?: boolean;
+  allowRotateStart?: boolean;
+}
+
+export interface CutOrderResult {
+  paths: Path[];
+  /** Distance traveled between paths in their original order */
+  travelBefore: number;
+  /** Distance traveled between paths in the planned order */
+  travelAfter: number;
+}
+
+interface CutJob {
+  path: Path;
+  /** The anchor a closed path starts from */
+  startIndex: number;
+  /** True if an open path is cut from its last anchor to its first */
+  isReversed: boolean;
+}
+
+/**
+ * Returns the distance traveled from `startPoint` through `paths` in order,
+ * not counting the paths themselves.
+ */
+const travelDistance = (paths: Path[], startPoint: Vec) => {
+  let position = startPoint;
+  let distance = 0;
+  for (let path of paths) {
+    if (path.anchors.length === 0) continue;
+    distance += position.distance(path.firstAnchor().position);
+    position = (path.closed ? path.firstAnchor() : path.lastAnchor()).position;
+  }
+  return distance;
+};
+
+const entryOfJob = ({ path, startIndex, isReversed }: CutJob) => {
+  if (path.closed) return path.anchors[startIndex].position;
+  return (isReversed ? path.lastAnchor() : path.firstAnchor()).position;
+};
+
+const exitOfJob = ({ path, startIndex, isReversed }: CutJob) => {
+  if (path.closed) return path.anchors[startIndex].position;
+  return (isReversed ? path.firstAnchor() : path.lastAnchor()).position;
+};
+
+/**
+ * Returns the ways that `job` could be started: from any anchor of a closed
+ * path if `allowRotateStart`, and from either end of an open path if
+ * `allowReverse`.
+ */
+const entriesOfJob = (job: CutJob, allowReverse: boolean, allowRotateStart: boolean) => {
+  const { path } = job;
+  if (path.closed) {
+    if (!allowRotateStart) return [{ ...job, startIndex: 0 }];
+    return path.anchors.map((_, startIndex) => ({ ...job, startIndex }));
+  }
+  if (!allowReverse) return [{ ...job, isReversed: false }];
+  return [
+    { ...job, isReversed: false },
+    { ...job, isReversed: true },
+  ];
+};
+
+/**
+ * Returns, for each of `paths`, the indices of the paths inside it, which
+ * should be cut before it. A path is inside a closed path if its bounding box
+ * is and its first anchor is.
+ */
+const pathsInsidePaths = (paths: Path[]) => {
+  const boxes = paths.map((path) => path.looseBoundingBox());
+  return paths.map((outer, i) => {
+    const inside: number[] = [];
+    const outerBox = boxes[i];
+    if (!outer.closed || !outerBox) return inside;
+    paths.forEach((path, j) => {
+      const box = boxes[j];
+      if (i === j || !box || !outerBox.containsBoundingBox(box)) return;
+      if (outer.windingNumberAtPoint(path.firstAnchor().position) !== 0) inside.push(j);
+    });
+    return inside;
+  });
+};
+
+const nearestNeighborOrder = (
+  jobs: CutJob[],
+  predecessors: number[][],
+  startPoint: Vec,
+  allowReverse: boolean,
+  allowRotateStart: boolean
+) => {
+  const isDone = jobs.map(() => false);
+  const order: CutJob[] = [];
+  let position = startPoint;
+  while (order.length < jobs.length) {
+    const isReady = (index: number) => (predecessors[index] ?? []).every((i) => isDone[i]);
+    // Paths that are inside each other, such as duplicates, can't all be
+    // ready, so then any path that isn't done is taken.
+    const remaining = jobs.map((_, index) => index).filter((index) => !isDone[index]);
+    const ready = remaining.filter(isReady);
+    const candidates = ready.length > 0 ? ready : remaining;
+
+    let best: { index: number; job: CutJob } | undefined;
+    let bestDistance = Infinity;
+    for (let index of candidates) {
+      for (let job of entriesOfJob(jobs[index], allowReverse, allowRotateStart)) {
+        const distance = position.distance(entryOfJob(job));
+        if (distance < bestDistance) {
+          best = { index, job };
+          bestDistance = distance;
+        }
+      }
+    }
+    isDone[best!.index] = true;
+    order.push(best!.job);
+    position = exitOfJob(best!.job);
+  }
+  return order;
+};
+
+/**
+ * Shortens the travel of `order` in place by reversing runs of paths (2-opt).
+ * A run can only be reversed if every open path in it can be reversed, and no
+ * path in it is inside another path in it.
+ */
+const improveOrder = (
+  order: CutJob[],
+  jobs: CutJob[],
+  predecessors: number[][],
+  startPoint: Vec,
+  allowReverse: boolean
+) => {
+  const n = order.length;
+  const indexOfPath = new Map(jobs.map(({ path }, index) => [path, index]));
+  const positions: number[] = [];
+  const updatePositions = () => {
+    order.forEach(({ path }, position) => (positions[indexOfPath.get(path)!] = position));
+  };
+  updatePositions();
+
+  const canReverseRun = (i: number, j: number) => {
+    for (let k = i; k <= j; ++k) {
+      const { path } = order[k];
+      if (!path.closed && !allowReverse) return false;
+      for (let index of predecessors[indexOfPath.get(path)!] ?? []) {
+        if (positions[index] >= i && positions[index] <= j) return false;
+      }
+    }
+    return true;
+  };
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; ++pass) {
+    let isImproved = false;
+    for (let i = 0; i < n - 1; ++i) {
+      const before = i === 0 ? startPoint : exitOfJob(order[i - 1]);
+      for (let j = i + 1; j < n; ++j) {
+        const after = j + 1 < n ? entryOfJob(order[j + 1]) : undefined;
+        // Reversing the run turns its last path's exit into its entry.
+        const oldTravel =
+          before.distance(entryOfJob(order[i])) + (after ? exitOfJob(order[j]).distance(after) : 0);
+        const newTravel =
+          before.distance(exitOfJob(order[j])) + (after ? entryOfJob(order[i]).distance(after) : 0);
+        if (oldTravel - newTravel <= MIN_IMPROVEMENT || !canReverseRun(i, j)) continue;
+
+        const run = order.slice(i, j + 1).reverse();
+        run.forEach((job, k) => {
+          order[i + k] = job.path.closed ? job : { ...job, isReversed: !job.isReversed };
+        });
+        updatePositions();
+        isImproved = true;
+      }
+    }
+    if (!isImproved) break;
+  }
+};
+
+/**
+ * Picks, in order, the anchor each closed path starts from and the direction
+ * of each open path to shorten the travel to and from its neighbors.
+ */
+const chooseEntries = (
+  order: CutJob[],
+  startPoint: Vec,
+  allowReverse: boolean,
+  allowRotateStart: boolean
+) => {
+  order.forEach((job, i) => {
+    const before = i === 0 ? startPoint : exitOfJob(order[i - 1]);
+    const after = i + 1 < order.length ? entryOfJob(order[i + 1]) : undefined;
+    let bestDistance = Infinity;
+    for (let entry of entriesOfJob(job, allowReverse, allowRotateStart)) {
+      const distance =
+        before.distance(entryOfJob(entry)) + (after ? exitOfJob(entry).distance(after) : 0);
+      if (distance < bestDistance) {
+        order[i] = entry;
+        bestDistance = distance;
+      }
+    }
+  });
+};
@@ -0,0 +1,129 @@
+import { Anchor } from "./anchor";
+import { endDirectionOfCurve, startDirectionOfCurve } from "./curve-graph";
+import { Geometry } from "./geometry";
+import { atan2 } from "./math";
+import { Path } from "./path";
+import { cubicFromSegment } from "./segment";
+import { pairs } from "./util";
+import { Vec } from "./vec";
+
+// Corners that turn by more than this many degrees get a swivel arc if no
+// threshold is given.
+const DEFAULT_ANGLE_THRESHOLD = 30;
+
+/**
+ * Returns a copy of `geometry` with each path compensated for a drag knife,
+ * whose swivel blade trails `options.bladeOffset` behind the center of the
+ * tool. Each segment is moved ahead along its direction by the blade offset,
+ * and at corners that turn by more than `options.angleThreshold` degrees the
+ * tool swings around the corner in an arc, which turns the blade to face the
+ * next segment before it starts cutting.
+ *
+ * @remarks
+ * Anchors with tangent handles are smooth and never get an arc. Corners that
+ * turn by less than the threshold are joined by a short straight line, which
+ * the blade follows closely enough. Curved segments are moved along the
+ * directions at their ends, which is accurate while the blade offset is small
+ * compared to their radius of curvature.
+ */
+export const dragKnifeCompensate = <T extends Geometry>(
+  geometry: T,
+  options: DragKnifeOptions
+): T => {
+  const { bladeOffset, angleThreshold = DEFAULT_ANGLE_THRESHOLD } = options;
+  const result = geometry.clone() as T;
+  if (!(bladeOffset > 0)) return result;
+  for (let path of result.allPaths()) {
+    path.anchors = compensatedAnchors(path, bladeOffset, angleThreshold);
+  }
+  return result;
+};
+
+export interface DragKnifeOptions {
+  /** Distance from the center of the tool back to the tip of the blade */
+  bladeOffset: number;
+  /** Corners that turn by more than this many degrees get a swivel arc */
+  angleThreshold?: number;
+}
+
+interface CompensatedSegment {
+  start: Anchor;
+  end: Anchor;
+  /** The original anchor at the end of the segment */
+  corner: Anchor;
+  startDirection: Vec;
+  endDirection: Vec;
+}
+
+const compensatedAnchors = (path: Path, bladeOffset: number, angleThreshold: number) => {
+  // Segments without a length don't have a direction, and are left out.
+  const segments: CompensatedSegment[] = [];
+  for (let [anchor1, anchor2] of pairs(path.anchors, path.closed)) {
+    const curve = cubicFromSegment([anchor1, anchor2]);
+    const startDirection = startDirectionOfCurve(curve);
+    const endDirection = endDirectionOfCurve(curve);
+    if (startDirection.isZero()) continue;
+    const start = new Anchor(
+      anchor1.position.clone().add(startDirection.clone().mulScalar(bladeOffset)),
+      new Vec(),
+      anchor1.handleOut.clone()
+    );
+    const end = new Anchor(
+      anchor2.position.clone().add(endDirection.clone().mulScalar(bladeOffset)),
+      anchor2.handleIn.clone(),
+      new Vec()
+    );
+    segments.push({ start, end, corner: anchor2, startDirection, endDirection });
+  }
+  if (segments.length === 0) return path.anchors;
+
+  const anchors = [segments[0].start];
+  segments.forEach((segment, i) => {
+    const next = segments[i + 1] ?? (path.closed ? segments[0] : undefined);
+    if (!next) {
+      anchors.push(segment.end);
+      return;
+    }
+    const joined = joinedAnchors(segment, next, bladeOffset, angleThreshold);
+    if (next !== segments[0]) {
+      anchors.push(...joined);
+    } else {
+      // The last anchor of the join is where a closed path starts.
+      anchors[0] = joined.pop()!;
+      anchors.push(...joined);
+    }
+  });
+  return anchors;
+};
+
+/**
+ * Returns the anchors that take the tool from the end of `segment` to the
+ * start of `next`, including both.
+ */
+const joinedAnchors = (
+  segment: CompensatedSegment,
+  next: CompensatedSegment,
+  bladeOffset: number,
+  angleThreshold: number
+) => {
+  const { start } = next;
+  const { end, corner, endDirection } = segment;
+  const turn = atan2(
+    crossProduct(endDirection, next.startDirection),
+    endDirection.dot(next.startDirection)
+  );
+  if (corner.hasTangentHandles() || end.position.equalsWithinTolerance(start.position)) {
+    return [new Anchor(end.position, end.handleIn, start.handleOut)];
+  }
+  if (Math.abs(turn) <= angleThreshold) return [end, start];
+
+  // The arc is centered on the original corner, so the blade tip stays on it
+  // while the blade swivels to face the next segment.
+  const startAngle = endDirection.angle();
+  const arc = Path.fromArc(corner.position, bladeOffset, startAngle, startAngle + turn).anchors;
+  end.handleOut = arc[0].handleOut;
+  start.handleIn = arc[arc.length - 1].handleIn;
+  return [end, ...arc.slice(1, -1), start];
+};
+
+const crossProduct = (a: Vec, b: Vec) => a.x * b.y - a.y * b.x;
@@ -0,0 +1,376 @@
+import { Anchor } from "./anchor";
+import { Path } from "./path";
+import { Cubic, isSegmentLinear, pointOnCubicAtTime } from "./segment";
+import { Vec } from "./vec";
+
+// Curve Fitting
+// Largely from "An Algorithm for Automatically Fitting Digitized Curves" by
+// Philip J. Schneider
+// Published in "Graphics Gems" (1990)
+// https://github.com/erich666/GraphicsGems/blob/master/gems/FitCurves.c
+
+const MAX_REPARAMETERIZE_ITERATIONS = 4;
+
+/**
+ * Replaces runs of linear segments in `path` with a minimal number of cubic
+ * segments that stay within `tolerance` of the original anchors. Anchors where
+ * the path turns by more than `cornerAngle` (in degrees), anchors next to
+ * curved segments, and the ends of open paths are kept as they are.
+ */
+export const fitCurvesToAnchors = (path: Path, tolerance: number, cornerAngle: number) => {
+  const { anchors, closed } = path;
+  const anchorCount = anchors.length;
+  if (anchorCount < 3) return anchors.map((anchor) => anchor.clone());
+
+  const segmentCount = closed ? anchorCount : anchorCount - 1;
+  const nextIndex = (i: number) => (i + 1) % anchorCount;
+  const prevIndex = (i: number) => (i - 1 + anchorCount) % anchorCount;
+  const isLinear = (i: number) => isSegmentLinear([anchors[i], anchors[nextIndex(i)]]);
+
+  const minCornerDot = Math.cos((cornerAngle * Math.PI) / 180);
+  const isCorner = (i: number) => {
+    if (!closed && (i === 0 || i === anchorCount - 1)) return true;
+    const dirIn = incomingDirection(anchors[prevIndex(i)], anchors[i]);
+    const dirOut = outgoingDirection(anchors[i], anchors[nextIndex(i)]);
+    if (dirIn.isZero() || dirOut.isZero()) return true;
+    return dirIn.dot(dirOut) < minCornerDot;
+  };
+  const isBreak = (i: number) => {
+    if (isCorner(i)) return true;
+    return !isLinear(prevIndex(i)) || !isLinear(i);
+  };
+
+  let startIndex = 0;
+  while (startIndex < anchorCount && !isBreak(startIndex)) ++startIndex;
+
+  if (startIndex === anchorCount) {
+    // A closed polygon without any corners is fit as a single smooth loop.
+    const points = [...anchors.map((anchor) => anchor.position), anchors[0].position];
+    const tangent = anchors[1].position
+      .clone()
+      .sub(anchors[anchorCount - 1].position)
+      .normalize();
+    const cubics = fitCubics(points, tangent, tangent.clone().negate(), tolerance);
+    const result = anchorsFromCubics(cubics);
+    result[0].handleIn.copy(result[result.length - 1].handleIn);
+    result.pop();
+    return result;
+  }
+
+  const result: Anchor[] = [anchors[startIndex].clone()];
+  let k = 0;
+  while (k < segmentCount) {
+    const i = (startIndex + k) % anchorCount;
+    if (!isLinear(i)) {
+      result.push(anchors[nextIndex(i)].clone());
+      ++k;
+      continue;
+    }
+
+    // Accumulate a run of linear segments up to the next break.
+    let m = k + 1;
+    while (m < segmentCount) {
+      const j = (startIndex + m) % anchorCount;
+      if (isBreak(j)) break;
+      ++m;
+    }
+    const endIndex = (startIndex + m) % anchorCount;
+    const endAnchor = anchors[endIndex].clone();
+    if (m - k > 1) {
+      const points: Vec[] = [];
+      for (let p = k; p <= m; ++p) {
+        points.push(anchors[(startIndex + p) % anchorCount].position);
+      }
+      const startTangent = isCorner(i)
+        ? points[1].clone().sub(points[0]).normalize()
+        : incomingDirection(anchors[prevIndex(i)], anchors[i]);
+      const endTangent = isCorner(endIndex)
+        ? points[points.length - 2]
+            .clone()
+            .sub(points[points.length - 1])
+            .normalize()
+        : outgoingDirection(anchors[endIndex], anchors[nextIndex(endIndex)]).negate();
+      const cubics = fitCubics(points, startTangent, endTangent, tolerance);
+      const fitAnchors = anchorsFromCubics(cubics);
+      result[result.length - 1].handleOut.copy(fitAnchors[0].handleOut);
+      endAnchor.handleIn.copy(fitAnchors[fitAnchors.length - 1].handleIn);
+      result.push(...fitAnchors.slice(1, -1));
+    }
+    result.push(endAnchor);
+    k = m;
+  }
+
+  if (closed) {
+    // The last anchor is a copy of the first.
+    result[0].handleIn.copy(result[result.length - 1].handleIn);
+    result.pop();
+  }
+
+  return result;
+};
+
+/**
+ * Removes anchors from runs of linear segments in `path` using the
+ * Douglas-Peucker algorithm, such that no removed anchor is further than
+ * `tolerance` from the simplified path. Anchors next to curved segments and
+ * the ends of open paths are always kept.
+ */
+export const simplifyLinearAnchors = (path: Path, tolerance: number) => {
+  const { anchors, closed } = path;
+  const anchorCount = anchors.length;
+  if (anchorCount < 3) return anchors.map((anchor) => anchor.clone());
+
+  const nextIndex = (i: number) => (i + 1) % anchorCount;
+  const prevIndex = (i: number) => (i - 1 + anchorCount) % anchorCount;
+  const isLinear = (i: number) => isSegmentLinear([anchors[i], anchors[nextIndex(i)]]);
+
+  const keep = anchors.map((_, i) => {
+    if (!closed && (i === 0 || i === anchorCount - 1)) return true;
+    return !isLinear(prevIndex(i)) || !isLinear(i);
+  });
+
+  let fixedIndices = keep.flatMap((k, i) => (k ? [i] : []));
+  if (fixedIndices.length === 0) {
+    // A closed polygon is split at its first anchor and the anchor furthest
+    // from it, which are both guaranteed to be kept.
+    const origin = anchors[0].position;
+    let furthestIndex = 1;
+    for (let i = 2; i < anchorCount; ++i) {
+      if (
+        anchors[i].position.distanceSquared(origin) >
+        anchors[furthestIndex].position.distanceSquared(origin)
+      ) {
+        furthestIndex = i;
+      }
+    }
+    keep[0] = keep[furthestIndex] = true;
+    fixedIndices = [0, furthestIndex];
+  }
+
+  const simplifyRun = (startIndex: number, endIndex: number) => {
+    // Indices are unwrapped so endIndex may be past the end of the anchors.
+    if (endIndex - startIndex < 2) return;
+    const a = anchors[startIndex % anchorCount].position;
+    const b = anchors[endIndex % anchorCount].position;
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = startIndex + 1; i < endIndex; ++i) {
+      const distance = anchors[i % anchorCount].position.distanceToLineSegment(a, b);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxDistance > tolerance) {
+      keep[maxIndex % anchorCount] = true;
+      simplifyRun(startIndex, maxIndex);
+      simplifyRun(maxIndex, endIndex);
+    }
+  };
+
+  for (let i = 0, n = fixedIndices.length; i < n; ++i) {
+    const startIndex = fixedIndices[i];
+    if (i + 1 < n) {
+      simplifyRun(startIndex, fixedIndices[i + 1]);
+    } else if (closed) {
+      simplifyRun(startIndex, fixedIndices[0] + anchorCount);
+    }
+  }
+
+  return anchors.filter((_, i) => keep[i]).map((anchor) => anchor.clone());
+};
+
+/**
+ * Fits a sequence of cubics to `points`. The first cubic leaves `points[0]` in
+ * the direction of `startTangent` and the last cubic arrives at the final point
+ * from the direction of `endTangent` (which points backward along the curve).
+ */
+export const fitCubics = (
+  points: Vec[],
+  startTangent: Vec,
+  endTangent: Vec,
+  tolerance: number
+): Cubic[] => {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (points.length === 2) {
+    const handleLength = first.distance(last) / 3;
+    return [
+      straightenCubic(
+        [
+          first,
+          startTangent.clone().mulScalar(handleLength).add(first),
+          endTangent.clone().mulScalar(handleLength).add(last),
+          last,
+        ],
+        tolerance
+      ),
+    ];
+  }
+
+  let times = chordLengthParameterize(points);
+  let cubic = generateCubic(points, times, startTangent, endTangent);
+  let { maxError, splitIndex } = computeMaxError(points, cubic, times);
+  if (maxError <= tolerance) return [straightenCubic(cubic, tolerance)];
+
+  // If the error is not too large, try reparameterizing and fitting again.
+  if (maxError <= tolerance * 4) {
+    for (let i = 0; i < MAX_REPARAMETERIZE_ITERATIONS; ++i) {
+      times = reparameterize(points, times, cubic);
+      cubic = generateCubic(points, times, startTangent, endTangent);
+      ({ maxError, splitIndex } = computeMaxError(points, cubic, times));
+      if (maxError <= tolerance) return [straightenCubic(cubic, tolerance)];
+    }
+  }
+
+  // Fitting failed, so split at the point of maximum error and fit each side.
+  let centerTangent = points[splitIndex - 1]
+    .clone()
+    .sub(points[splitIndex + 1])
+    .normalize();
+  if (centerTangent.isZero()) {
+    centerTangent = points[splitIndex - 1].clone().sub(points[splitIndex]).normalize();
+  }
+  return [
+    ...fitCubics(points.slice(0, splitIndex + 1), startTangent, centerTangent, tolerance),
+    ...fitCubics(points.slice(splitIndex), centerTangent.clone().negate(), endTangent, tolerance),
+  ];
+};
+
+const generateCubic = (points: Vec[], times: number[], tangent1: Vec, tangent2: Vec): Cubic => {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  // Compute the least squares solution for the handle lengths.
+  let c00 = 0;
+  let c01 = 0;
+  let c11 = 0;
+  let x0 = 0;
+  let x1 = 0;
+  const a1 = new Vec();
+  const a2 = new Vec();
+  const tmp = new Vec();
+  for (let i = 0, n = points.length; i < n; ++i) {
+    const t = times[i];
+    const mt = 1 - t;
+    const b0 = mt * mt * mt;
+    const b1 = 3 * t * mt * mt;
+    const b2 = 3 * t * t * mt;
+    const b3 = t * t * t;
+    a1.copy(tangent1).mulScalar(b1);
+    a2.copy(tangent2).mulScalar(b2);
+    c00 += a1.dot(a1);
+    c01 += a1.dot(a2);
+    c11 += a2.dot(a2);
+    tmp.set(
+      points[i].x - (first.x * (b0 + b1) + last.x * (b2 + b3)),
+      points[i].y - (first.y * (b0 + b1) + last.y * (b2 + b3))
+    );
+    x0 += a1.dot(tmp);
+    x1 += a2.dot(tmp);
+  }
+
+  const det = c00 * c11 - c01 * c01;
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+
+  // If the handle lengths are degenerate fall back to the Wu/Barsky heuristic.
+  const chordLength = first.distance(last);
+  const epsilon = 1e-6 * chordLength;
+  if (alpha1 < epsilon || alpha2 < epsilon) {
+    alpha1 = alpha2 = chordLength / 3;
+  }
+
+  return [
+    first,
+    tangent1.clone().mulScalar(alpha1).add(first),
+    tangent2.clone().mulScalar(alpha2).add(last),
+    last,
+  ];
+};
+
+const chordLengthParameterize = (points: Vec[]) => {
+  const times = [0];
+  for (let i = 1, n = points.length; i < n; ++i) {
+    times.push(times[i - 1] + points[i].distance(points[i - 1]));
+  }
+  const totalLength = times[times.length - 1];
+  if (totalLength === 0) return times.map((_, i) => i / (times.length - 1));
+  return times.map((t) => t / totalLength);
+};
+
+const computeMaxError = (points: Vec[], cubic: Cubic, times: number[]) => {
+  let maxError = 0;
+  let splitIndex = Math.floor(points.length / 2);
+  const point = new Vec();
+  for (let i = 1, n = points.length - 1; i < n; ++i) {
+    pointOnCubicAtTime(point, cubic, times[i]);
+    const error = point.distance(points[i]);
+    if (error >= maxError) {
+      maxError = error;
+      splitIndex = i;
+    }
+  }
+  return { maxError, splitIndex };
+};
+
+/**
+ * Improves the time associated with each point using a Newton-Raphson step
+ * toward the closest point on the cubic.
+ */
+const reparameterize = (points: Vec[], times: number[], [p0, p1, p2, p3]: Cubic) => {
+  const d1 = [p1.clone().sub(p0), p2.clone().sub(p1), p3.clone().sub(p2)].map((v) =>
+    v.mulScalar(3)
+  );
+  const d2 = [d1[1].clone().sub(d1[0]), d1[2].clone().sub(d1[1])].map((v) => v.mulScalar(2));
+  const point = new Vec();
+  return times.map((t, i) => {
+    const mt = 1 - t;
+    pointOnCubicAtTime(point, [p0, p1, p2, p3], t);
+    const q1 = d1[0]
+      .clone()
+      .mulScalar(mt * mt)
+      .add(d1[1].clone().mulScalar(2 * t * mt))
+      .add(d1[2].clone().mulScalar(t * t));
+    const q2 = d2[0].clone().mulScalar(mt).add(d2[1].clone().mulScalar(t));
+    const diff = point.sub(points[i]);
+    const denominator = q1.dot(q1) + diff.dot(q2);
+    if (denominator === 0) return t;
+    return t - diff.dot(q1) / denominator;
+  });
+};
+
+/**
+ * Returns a cubic with zero handles if all of its control points are within
+ * `tolerance` of the line between its end points.
+ */
+const straightenCubic = (cubic: Cubic, tolerance: number): Cubic => {
+  const [p0, p1, p2, p3] = cubic;
+  if (
+    p1.distanceToLineSegment(p0, p3) <= tolerance &&
+    p2.distanceToLineSegment(p0, p3) <= tolerance
+  ) {
+    return [p0, p0, p3, p3];
+  }
+  return cubic;
+};
+
+export const anchorsFromCubics = (cubics: Cubic[]) => {
+  const anchors = [new Anchor(cubics[0][0].clone())];
+  for (let [p0, p1, p2, p3] of cubics) {
+    anchors[anchors.length - 1].handleOut = p1.clone().sub(p0);
+    anchors.push(new Anchor(p3.clone(), p2.clone().sub(p3)));
+  }
+  return anchors;
+};
+
+const incomingDirection = (prev: Anchor, anchor: Anchor) => {
+  if (!anchor.handleIn.isZero()) return anchor.handleIn.clone().negate().normalize();
+  return anchor.position.clone().sub(prev.position).sub(prev.handleOut).normalize();
+};
+
+const outgoingDirection = (anchor: Anchor, next: Anchor) => {
+  if (!anchor.handleOut.isZero()) return anchor.handleOut.clone().normalize();
+  return next.position.clone().add(next.handleIn).sub(anchor.position).normalize();
+};
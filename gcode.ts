@@ -0,0 +1,244 @@
+import { Color } from "./color";
+import { CutOrderOptions, planCutOrder } from "./cut-order";
+import { Geometry } from "./geometry";
+import { Shape } from "./shape";
+import { scaleFactorForUnitConversion, Unit } from "./units";
+import { Vec } from "./vec";
+
+// Curves are flattened to within this many millimeters unless a tolerance is
+// given.
+const DEFAULT_TOLERANCE_MM = 0.01;
+
+// Pens and router bits are raised this many millimeters above the work
+// between paths unless a height is given.
+const DEFAULT_CLEARANCE_MM = 5;
+
+/**
+ * Returns G-code that draws or cuts the paths of `geometry` on the machine
+ * described by `profile`, along with warnings about anything in `geometry`
+ * that couldn't be exported as it is.
+ *
+ * @remarks
+ * Paths are cut in the order given by `planCutOrder()` with
+ * `profile.cutOrder`, or in their original order if that is `false`. Curves
+ * are fitted with G2 and G3 arc moves by `Path.toBiarcs()` to within
+ * `profile.tolerance`, or flattened into G1 moves if `profile.arcs` is
+ * `false`. Travel between paths uses G0 moves. Coordinates are converted from
+ * `profile.geometryUnit` to `profile.unit`, and y is flipped by default so
+ * that it increases upward as it does on most machines.
+ *
+ * Headers and footers are templates where `{units}` is replaced by the G20
+ * or G21 units command and `{name}` is replaced by the value of the setting
+ * `name` of the profile, such as `{feedRate}` or `{safeZ}`.
+ */
+export const toGCode = (geometry: Geometry, profile: GCodeProfile): GCodeResult => {
+  const { unit = "mm", geometryUnit = unit, flipY = true, cutOrder = {}, arcs = true } = profile;
+  const millimeters = scaleFactorForUnitConversion("mm", unit);
+  const tolerance = profile.tolerance ?? DEFAULT_TOLERANCE_MM * millimeters;
+  const precision = profile.precision ?? (unit === "mm" ? 3 : 4);
+
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  const format = (x: number) => (+x.toFixed(precision)).toString();
+  const xy = ({ x, y }: Vec) => `X${format(x)} Y${format(y)}`;
+
+  // Settings with their defaults filled in, which templates can refer to.
+  const settings: { [name: string]: number | string | undefined } = {
+    units: unit === "mm" ? "G21" : "G20",
+    feedRate: profile.feedRate,
+  };
+  if (profile.machine === "laser") {
+    settings.power = profile.power;
+  } else if (profile.machine === "plotter") {
+    settings.penUpZ = profile.penUpZ ?? DEFAULT_CLEARANCE_MM * millimeters;
+    settings.penDownZ = profile.penDownZ ?? 0;
+  } else {
+    settings.depth = profile.depth;
+    settings.stepDown = profile.stepDown ?? profile.depth;
+    settings.safeZ = profile.safeZ ?? DEFAULT_CLEARANCE_MM * millimeters;
+    settings.plungeFeedRate = profile.plungeFeedRate ?? profile.feedRate;
+    settings.spindleSpeed = profile.spindleSpeed;
+  }
+  const fillTemplate = (template: string) => {
+    return template.replace(/\{(\w+)\}/g, (placeholder: string, name: string) => {
+      const value = settings[name];
+      if (value === undefined) {
+        warn(`Unknown template placeholder ${placeholder} was left as it is`);
+        return placeholder;
+      }
+      return typeof value === "number" ? format(value) : value;
+    });
+  };
+
+  const scale = scaleFactorForUnitConversion(geometryUnit, unit);
+  const machineGeometry = geometry
+    .clone()
+    .transform({ scale: new Vec(scale, flipY ? -scale : scale) });
+  const paths =
+    cutOrder === false
+      ? pathsOfGeometry(machineGeometry)
+      : planCutOrder(machineGeometry, cutOrder).paths;
+
+  const lines = [fillTemplate(profile.header ?? defaultHeader(profile))];
+  for (let path of paths) {
+    if (!path.isValid()) {
+      warn("Paths with invalid coordinates were skipped");
+      continue;
+    }
+    if (path.anchors.length < 2) {
+      warn("Paths with fewer than two anchors were skipped");
+      continue;
+    }
+    if (path.fill) {
+      warn("Fills are not supported, so filled paths were exported as their outlines");
+    }
+
+    const start = path.firstAnchor().position;
+    let moves: string[];
+    if (arcs) {
+      moves = path.toBiarcs(tolerance).map((primitive) => {
+        if (primitive.type === "line") return `G1 ${xy(primitive.end)}`;
+        // G3 turns from the positive x axis toward positive y, as a positive sweep does.
+        const { x, y } = primitive.center.clone().sub(primitive.start);
+        const command = primitive.sweepAngle > 0 ? "G3" : "G2";
+        return `${command} ${xy(primitive.end)} I${format(x)} J${format(y)}`;
+      });
+    } else {
+      const { points } = path.toPolyline(tolerance);
+      if (path.closed) points.push(points[0]);
+      moves = points.slice(1).map((point) => `G1 ${xy(point)}`);
+    }
+    const cutMoves = (feedRate: number) => {
+      return moves.map((move, i) => (i === 0 ? `${move} F${format(feedRate)}` : move));
+    };
+
+    if (profile.machine === "laser") {
+      const { laserMode = "M4" } = profile;
+      const power = powerForColor(path.stroke?.color, profile);
+      lines.push(`G0 ${xy(start)}`, `${laserMode} S${format(power)}`);
+      lines.push(...cutMoves(profile.feedRate), "M5");
+    } else if (profile.machine === "plotter") {
+      lines.push(`G0 ${xy(start)}`, `G0 Z${format(settings.penDownZ as number)}`);
+      lines.push(...cutMoves(profile.feedRate), `G0 Z${format(settings.penUpZ as number)}`);
+    } else {
+      const { depth, feedRate } = profile;
+      const safeZ = settings.safeZ as number;
+      const stepDown = settings.stepDown as number;
+      const passCount = stepDown > 0 ? Math.max(1, Math.ceil(depth / stepDown - 1e-9)) : 1;
+      for (let pass = 1; pass <= passCount; ++pass) {
+        // Closed paths end where they start, so the next pass can plunge
+        // straight down.
+        if (pass === 1 || !path.closed) {
+          if (pass > 1) lines.push(`G0 Z${format(safeZ)}`);
+          lines.push(`G0 ${xy(start)}`);
+        }
+        const z = -Math.min(depth, pass * stepDown);
+        lines.push(`G1 Z${format(z)} F${format(settings.plungeFeedRate as number)}`);
+        lines.push(...cutMoves(feedRate));
+      }
+      lines.push(`G0 Z${format(safeZ)}`);
+    }
+  }
+  lines.push(fillTemplate(profile.footer ?? defaultFooter(profile)));
+
+  return { gcode: lines.join("\n") + "\n", warnings };
+};
+
+export type GCodeUnit = "mm" | "in";
+
+export interface BaseGCodeProfile {
+  /** Units the G-code is written in. Defaults to "mm". */
+  unit?: GCodeUnit;
+  /** Units of the geometry, which are converted to `unit`. Defaults to `unit`. */
+  geometryUnit?: Unit;
+  /** Speed of cutting moves, in `unit` per minute */
+  feedRate: number;
+  /** Maximum distance between curves and the moves that follow them, in `unit` */
+  tolerance?: number;
+  /** Use G2 and G3 arc moves for curves. Defaults to true. */
+  arcs?: boolean;
+  /** Number of digits after the decimal point in coordinates */
+  precision?: number;
+  flipY?: boolean;
+  cutOrder?: CutOrderOptions | false;
+  header?: string;
+  footer?: string;
+}
+
+export interface LaserGCodeProfile extends BaseGCodeProfile {
+  machine: "laser";
+  /** "M3" for constant power, or "M4" for power that follows the speed. Defaults to "M4". */
+  laserMode?: "M3" | "M4";
+  /** The S value for paths without a power set for their stroke color */
+  power: number;
+  /** S values for paths by the color of their stroke */
+  colorPowers?: { color: Color; power: number }[];
+}
+
+export interface PlotterGCodeProfile extends BaseGCodeProfile {
+  machine: "plotter";
+  penUpZ?: number;
+  penDownZ?: number;
+}
+
+export interface RouterGCodeProfile extends BaseGCodeProfile {
+  machine: "router";
+  /** Depth to cut to below the top of the material, at Z0 */
+  depth: number;
+  /** Greatest depth to cut in one pass. Defaults to `depth`. */
+  stepDown?: number;
+  /** Height to travel at between cuts */
+  safeZ?: number;
+  /** Speed of moves down into the material, in `unit` per minute */
+  plungeFeedRate?: number;
+  /** If given, the spindle is started at this speed by the default header */
+  spindleSpeed?: number;
+}
+
+export type GCodeProfile = LaserGCodeProfile | PlotterGCodeProfile | RouterGCodeProfile;
+
+export interface GCodeResult {
+  gcode: string;
+  warnings: string[];
+}
+
+const pathsOfGeometry = (geometry: Geometry) => {
+  return geometry.allShapesAndOrphanedPaths().flatMap((item) => {
+    if (item instanceof Shape) return item.paths.map((path) => path.clone().copyStyle(item));
+    return [item];
+  });
+};
+
+const powerForColor = (color: Color | undefined, profile: LaserGCodeProfile) => {
+  const colorPower = color && profile.colorPowers?.find((entry) => entry.color.equals(color));
+  return colorPower ? colorPower.power : profile.power;
+};
+
+const defaultHeader = (profile: GCodeProfile) => {
+  const lines = ["G90", "{units}"];
+  if (profile.machine === "laser") {
+    lines.push("M5");
+  } else if (profile.machine === "plotter") {
+    lines.push("G0 Z{penUpZ}");
+  } else {
+    lines.push("G0 Z{safeZ}");
+    if (profile.spindleSpeed !== undefined) lines.push("M3 S{spindleSpeed}");
+  }
+  return lines.join("\n");
+};
+
+const defaultFooter = (profile: GCodeProfile) => {
+  const lines: string[] = [];
+  if (profile.machine === "laser") {
+    lines.push("M5");
+  } else if (profile.machine === "plotter") {
+    lines.push("G0 Z{penUpZ}");
+  } else {
+    lines.push("G0 Z{safeZ}");
+    if (profile.spindleSpeed !== undefined) lines.push("M5");
+  }
+  lines.push("M2");
+  return lines.join("\n");
+};
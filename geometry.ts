@@ -1,10 +1,11 @@
 import type { Anchor } from "./anchor";
 import { Axis } from "./axis";
 import { BoundingBox } from "./bounding-box";
+import { DEFAULT_TOLERANCE } from "./constants";
 import { AffineMatrix, TransformArgs } from "./matrix";
 import type { Path } from "./path";
 import type { Shape } from "./shape";
-import { Fill, Stroke } from "./style";
+import { Fill, FillRule, Stroke } from "./style";
 import { Vec } from "./vec";
 
 export abstract class Geometry {
@@ -44,6 +45,15 @@ export abstract class Geometry {
     return this;
   }
 
+  /**
+   * Cuts this geometry along `cutters`. Paths are cut into open pieces
+   * wherever they cross a cutter, and the areas of shapes are divided along
+   * the cutters into separate closed shapes.
+   */
+  splitByPaths(cutters: Path[]): Geometry {
+    return this;
+  }
+
   assignFill(fill: Fill): Geometry {
     return this;
   }
@@ -56,6 +66,13 @@ export abstract class Geometry {
   removeStroke() {
     return this;
   }
+  /**
+   * Sets the rule that decides which areas enclosed by paths are inside the
+   * geometry, for filling, hit testing and boolean operations.
+   */
+  assignFillRule(fillRule: FillRule): Geometry {
+    return this;
+  }
   assignStyle(fill: Fill, stroke: Stroke): Geometry {
     return this;
   }
@@ -98,6 +115,58 @@ export abstract class Geometry {
     return false;
   }
 
+  /**
+   * Returns integrals over the area enclosed by this geometry, which can be
+   * summed across geometry. See `area()`, `centroid()` and
+   * `secondMomentsOfArea()` for more convenient accessors.
+   */
+  areaMoments(): AreaMoments {
+    return { area: 0, mx: 0, my: 0, mxx: 0, myy: 0, mxy: 0 };
+  }
+
+  /**
+   * Returns the area enclosed by this geometry in square project units.
+   */
+  area() {
+    return this.areaMoments().area;
+  }
+
+  /**
+   * Returns the center of mass of the area enclosed by this geometry, or
+   * undefined if it doesn't enclose any area.
+   */
+  centroid() {
+    const { area, mx, my } = this.areaMoments();
+    if (area === 0) return undefined;
+    return new Vec(mx / area, my / area);
+  }
+
+  /**
+   * Returns the second moments of area (area moments of inertia) of this
+   * geometry about axes through its centroid. `ixx` is about the horizontal
+   * axis, `iyy` about the vertical axis and `ixy` is the product moment.
+   */
+  secondMomentsOfArea() {
+    const { area, mx, my, mxx, myy, mxy } = this.areaMoments();
+    if (area === 0) return { ixx: 0, iyy: 0, ixy: 0 };
+    const cx = mx / area;
+    const cy = my / area;
+    return {
+      ixx: myy - area * cy * cy,
+      iyy: mxx - area * cx * cx,
+      ixy: mxy - area * cx * cy,
+    };
+  }
+
+  /**
+   * Returns a polyline for every path in this geometry, adaptively subdivided
+   * so that no point on the original curves is further than `tolerance` from
+   * the polyline.
+   */
+  toPolylines(tolerance = DEFAULT_TOLERANCE): Polyline[] {
+    return this.allPaths().map((path) => path.toPolyline(tolerance));
+  }
+
   static isValid(a: unknown): a is Geometry {
     if (a instanceof Geometry) return a.isValid();
     return false;
@@ -114,4 +183,42 @@ export interface ExportOptions {
   hairlineStrokeWidth?: number;
   maxPrecision?: number;
   useSVGPathClipping?: boolean;
+  /**
+   * Write SVG path data with compact relative commands instead of absolute
+   * commands.
+   */
+  useRelativeSVGPathCommands?: boolean;
+}
+
+/**
+ * Integrals over an area with respect to the origin.
+ */
+export interface AreaMoments {
+  /** The integral of 1, or the area */
+  area: number;
+  /** The integral of x */
+  mx: number;
+  /** The integral of y */
+  my: number;
+  /** The integral of x * x */
+  mxx: number;
+  /** The integral of y * y */
+  myy: number;
+  /** The integral of x * y */
+  mxy: number;
+}
+
+export interface Polyline {
+  points: Vec[];
+  /**
+   * The path time of each point. The integer part is the index of the original
+   * segment and the fractional part is the position along it.
+   */
+  times: number[];
+  /**
+   * The index of the original segment that each point lies on. The end point
+   * of a segment belongs to that segment.
+   */
+  segmentIndices: number[];
+  closed: boolean;
 }
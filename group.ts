@@ -1,12 +1,19 @@
+import {
+  activeBooleanBackend,
+  nativeBooleanDifference,
+  nativeBooleanIntersect,
+  nativeBooleanUnion,
+  nativeStroke,
+} from "./boolean";
 import { BoundingBox } from "./bounding-box";
 import { Color } from "./color";
 import { DEFAULT_TOLERANCE } from "./constants";
-import { ClosestPointResult, ExportOptions, Geometry } from "./geometry";
+import { AreaMoments, ClosestPointResult, ExportOptions, Geometry } from "./geometry";
 import { AffineMatrix } from "./matrix";
-import { Path } from "./path";
+import { ClipOptions, Path } from "./path";
 import { copyPkPath, deletePkPath, fromPkPath, PathKit, performStroke, toPkPath } from "./pathkit";
 import { Shape } from "./shape";
-import { Fill, Stroke } from "./style";
+import { Fill, FillRule, Stroke } from "./style";
 import { Vec } from "./vec";
 
 export class Group extends Geometry {
@@ -79,6 +86,11 @@ export class Group extends Geometry {
     return this;
   }
 
+  assignFillRule(fillRule: FillRule) {
+    for (let item of this.items) item.assignFillRule(fillRule);
+    return this;
+  }
+
   assignStyle(fill: Fill, stroke: Stroke) {
     for (let item of this.items) item.assignStyle(fill, stroke);
     return this;
@@ -173,17 +185,50 @@ export class Group extends Geometry {
     return this.items.some((item) => item.styleContainsPoint(point));
   }
 
+  /**
+   * Returns the sum of the area moments of every item. Areas where items
+   * overlap are counted once for each item.
+   */
+  areaMoments(): AreaMoments {
+    const moments: AreaMoments = { area: 0, mx: 0, my: 0, mxx: 0, myy: 0, mxy: 0 };
+    for (let item of this.items) {
+      const itemMoments = item.areaMoments();
+      moments.area += itemMoments.area;
+      moments.mx += itemMoments.mx;
+      moments.my += itemMoments.my;
+      moments.mxx += itemMoments.mxx;
+      moments.myy += itemMoments.myy;
+      moments.mxy += itemMoments.mxy;
+    }
+    return moments;
+  }
+
   reverse() {
     this.items.forEach((item) => item.reverse());
     this.items.reverse();
     return this;
   }
 
+  splitByPaths(cutters: Path[]) {
+    return new Group(this.items.map((item) => item.splitByPaths(cutters)));
+  }
+
+  /**
+   * Returns the pieces of every path in this group that lie inside the area
+   * filled by `shape`, or outside it if `keep` is "outside". See
+   * `Path.clipToShape()`.
+   */
+  clipToShape(shape: Shape, options?: ClipOptions) {
+    return new Group(this.allPaths().flatMap((path) => path.clipToShape(shape, options)));
+  }
+
   static isValid(a: unknown): a is Group {
     return a instanceof Group && a.isValid();
   }
 
   static flatten(geometry: Geometry, backgroundColor?: Color) {
+    if (activeBooleanBackend() === "native") return flattenNatively(geometry, backgroundColor);
+
     const colorPkPaths: { color: Color; pkPath: any }[] = [];
     const addPkPath = (pkPath2: any, color2: Color) => {
       let found = false;
@@ -321,6 +366,56 @@ export class Group extends Geometry {
   }
 }
 
+/**
+ * Same as `Group.flatten()` but using the native boolean backend.
+ */
+const flattenNatively = (geometry: Geometry, backgroundColor?: Color) => {
+  const colorShapes: { color: Color; shape: Shape }[] = [];
+  const addShape = (shape2: Shape, color2: Color) => {
+    let found = false;
+    for (let colorShape of colorShapes) {
+      if (colorShape.color.equals(color2)) {
+        found = true;
+        colorShape.shape = nativeBooleanUnion([colorShape.shape, shape2]);
+      } else {
+        colorShape.shape = nativeBooleanDifference([colorShape.shape, shape2]);
+      }
+    }
+    const isBackgroundColor = backgroundColor && color2.equals(backgroundColor);
+    if (!found && !isBackgroundColor) {
+      colorShapes.push({ color: color2, shape: shape2 });
+    }
+  };
+
+  for (let item of geometry.allShapesAndOrphanedPaths()) {
+    if (item.fill) {
+      addShape(nativeBooleanUnion([item]), item.fill.color);
+    }
+    if (item.stroke && !item.stroke.hairline) {
+      const { width, cap, join, miterLimit, alignment } = item.stroke;
+      let shape: Shape;
+      if (alignment === "centered") {
+        shape = nativeStroke(item, width, cap, join, miterLimit);
+      } else {
+        const stroked = nativeStroke(item, width * 2, cap, join, miterLimit);
+        if (alignment === "outer") {
+          shape = nativeBooleanDifference([stroked, item]);
+        } else {
+          shape = nativeBooleanIntersect([stroked, item]);
+        }
+      }
+      addShape(shape, item.stroke.color);
+    }
+  }
+
+  const result: Shape[] = [];
+  for (let { color, shape } of colorShapes) {
+    shape.fill = new Fill(color.clone());
+    result.push(shape);
+  }
+  return new Group(result);
+};
+
 const indentString = (s: string) => {
   return "  " + s.replace(/\n/g, "\n  ");
 };
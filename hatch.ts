@@ -0,0 +1,152 @@
+import { PreparedRegion, preparedRegion, regionContainsPoint } from "./curve-graph";
+import { AffineMatrix } from "./matrix";
+import { Path } from "./path";
+import { Line, primitivePrimitiveIntersections } from "./segment";
+import { HatchConnect, Shape } from "./shape";
+import { Vec } from "./vec";
+
+// Connectors are tested for being inside the shape this fraction of the size
+// of the shape away from the boundary they run along.
+const RELATIVE_NUDGE_DISTANCE = 1e-6;
+
+// Crossings closer than this to the ends of a connector are where it meets
+// the boundary at its ends.
+const CONNECTOR_END_TIME_EPSILON = 1e-6;
+
+type Span = [Vec, Vec];
+
+/**
+ * Returns lines at `angle` degrees, `spacing` apart, clipped to the area
+ * filled by `shape`. With "zigzag", lines on neighboring rows are joined end
+ * to end where the connection stays inside the shape.
+ *
+ * @remarks
+ * Rows lie halfway between multiples of `spacing` from the origin, so that
+ * neighboring shapes hatched with the same settings line up.
+ */
+export const hatchPathsOfShape = (
+  shape: Shape,
+  spacing: number,
+  angle: number,
+  connect: HatchConnect
+) => {
+  // Hatch horizontally in a rotated copy of the shape, then rotate back.
+  const rotated = shape.clone().affineTransform(AffineMatrix.fromRotation(-angle));
+  const box = rotated.tightBoundingBox();
+  if (!box) return [];
+  const region = preparedRegion(rotated.paths, rotated.fillRule);
+  const nudge = box.max.distance(box.min) * RELATIVE_NUDGE_DISTANCE;
+
+  const rows: Span[][] = [];
+  const firstRow = Math.ceil(box.min.y / spacing - 0.5);
+  const lastRow = Math.floor(box.max.y / spacing - 0.5);
+  for (let row = firstRow; row <= lastRow; ++row) {
+    const y = (row + 0.5) * spacing;
+    const line: Line = [new Vec(box.min.x - spacing, y), new Vec(box.max.x + spacing, y)];
+    rows.push(spansInsideRegion(line, region));
+  }
+
+  const paths =
+    connect === "zigzag"
+      ? zigzagPaths(rows, region, nudge)
+      : rows.flat().map((span) => Path.fromPoints(span));
+  const unrotate = AffineMatrix.fromRotation(angle);
+  return paths.map((path) => path.affineTransform(unrotate));
+};
+
+/**
+ * Returns the portions of the horizontal `line` inside `region`, from left to
+ * right, each running left to right.
+ */
+const spansInsideRegion = (line: Line, region: PreparedRegion) => {
+  const [start, end] = line;
+  const { y } = start;
+  const xs = [start.x, end.x];
+  for (let curve of region.curves) {
+    const ys = curve.map((point) => point.y);
+    if (Math.min(...ys) > y || Math.max(...ys) < y) continue;
+    for (let { time2 } of primitivePrimitiveIntersections(curve, line)) {
+      xs.push(start.x + time2 * (end.x - start.x));
+    }
+    // The line may pass exactly through an end point, where crossings are
+    // easy to miss. Extra places to test don't change the result.
+    if (curve[0].y === y) xs.push(curve[0].x);
+  }
+  xs.sort((a, b) => a - b);
+
+  // Test the middle of each interval between crossings, and join intervals
+  // that are inside into spans.
+  const spans: Span[] = [];
+  let spanStart: number | undefined;
+  for (let i = 0; i + 1 < xs.length; ++i) {
+    const x0 = xs[i];
+    const x1 = xs[i + 1];
+    if (x1 === x0) continue;
+    const isInside = regionContainsPoint(region, new Vec((x0 + x1) / 2, y));
+    if (isInside && spanStart === undefined) {
+      spanStart = x0;
+    } else if (!isInside && spanStart !== undefined) {
+      spans.push([new Vec(spanStart, y), new Vec(x0, y)]);
+      spanStart = undefined;
+    }
+  }
+  return spans;
+};
+
+/**
+ * Links spans on neighboring rows into zigzag paths, alternating direction
+ * from row to row. Each path starts from the first span not yet used and
+ * continues to the nearest span on the next row that it can reach without
+ * leaving the region.
+ */
+const zigzagPaths = (rows: Span[][], region: PreparedRegion, nudge: number) => {
+  const used = rows.map((spans) => spans.map(() => false));
+  const paths: Path[] = [];
+  rows.forEach((spans, firstRow) => {
+    spans.forEach((span, firstIndex) => {
+      if (used[firstRow][firstIndex]) return;
+      used[firstRow][firstIndex] = true;
+      const points = [span[0], span[1]];
+      let isRightward = true;
+      for (let row = firstRow + 1; row < rows.length; ++row) {
+        // Having arrived at the right end of a span, continue from the right
+        // end of a span on the next row, and vice versa.
+        const end = points[points.length - 1];
+        const side = isRightward ? 1 : 0;
+        const inward = new Vec(isRightward ? -nudge : nudge, 0);
+        const candidates = rows[row]
+          .map((span, index) => ({ span, index }))
+          .filter(({ index }) => !used[row][index])
+          .sort((a, b) => a.span[side].distance(end) - b.span[side].distance(end));
+        const next = candidates.find(({ span }) => {
+          return isConnectorInside(end, span[side], inward, region);
+        });
+        if (!next) break;
+        used[row][next.index] = true;
+        points.push(next.span[side], next.span[1 - side]);
+        isRightward = !isRightward;
+      }
+      paths.push(Path.fromPoints(points));
+    });
+  });
+  return paths;
+};
+
+/**
+ * Returns true if the line from `a` to `b`, which both lie on the boundary of
+ * `region`, runs through the inside of the region. The middle of the line is
+ * tested after moving it by `inward`, toward the inside of the spans it
+ * connects, so that connectors running along the boundary are accepted.
+ */
+const isConnectorInside = (a: Vec, b: Vec, inward: Vec, region: PreparedRegion) => {
+  const connector: Line = [a, b];
+  for (let curve of region.curves) {
+    for (let { time2 } of primitivePrimitiveIntersections(curve, connector)) {
+      if (time2 > CONNECTOR_END_TIME_EPSILON && time2 < 1 - CONNECTOR_END_TIME_EPSILON) {
+        return false;
+      }
+    }
+  }
+  const middle = a.clone().add(b).mulScalar(0.5).add(inward);
+  return regionContainsPoint(region, middle);
+};
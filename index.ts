@@ -1,12 +1,20 @@
 import { _initPathKit } from "./pathkit";
 
 export * from "./anchor";
+export * from "./arc-length";
+export * from "./arrangement";
 export * from "./axis";
+export * from "./boolean";
 export * from "./bounding-box";
 export * from "./color";
 export * from "./constants";
+export * from "./cut-order";
+export * from "./drag-knife";
+export * from "./gcode";
 export * from "./geometry";
 export * from "./group";
+export * from "./kerf";
+export * from "./leads";
 export * from "./math";
 export * from "./matrix";
 export * from "./path";
@@ -15,13 +23,15 @@ export * from "./segment";
 export * from "./shape";
 export * from "./style";
 export * from "./svg";
+export * from "./svg-path";
+export * from "./tabs";
 export * from "./units";
 export * from "./util";
 export * from "./vec";
 
 /**
  * Initialize Cuttle's internal PathKit instance. PathKit is used for boolean
- * operations.
+ * operations unless the native backend is chosen with `setBooleanBackend()`.
  *
  * @remarks
  * This function should be called only once on application start.
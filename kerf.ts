@@ -0,0 +1,58 @@
+import { Geometry } from "./geometry";
+import { OffsetOptions, Path } from "./path";
+import { Shape } from "./shape";
+
+/**
+ * Returns a copy of `geometry` with each closed path moved away from the
+ * material it bounds by half of `kerf`, so that parts come out at their drawn
+ * size after cutting. Outer boundaries grow and holes shrink. Open paths are
+ * left as they are.
+ *
+ * @remarks
+ * Within a Shape, holes are found with the Shape's fill rule, taking the
+ * direction of each path into account for the "nonzero" rule. See
+ * `Shape.holeFlags()`. Closed paths that aren't part of a Shape are treated as
+ * an even-odd Shape among themselves, so a Group of separate paths for a part
+ * and its holes is compensated as one part. Corners are joined according to `options.join`,
+ * which defaults to "miter" to keep sharp corners sharp.
+ *
+ * @param kerf the width of material removed by the cut, in project units
+ */
+export const kerfCompensate = <T extends Geometry>(
+  geometry: T,
+  kerf: number,
+  options?: OffsetOptions
+): T => {
+  const result = geometry.clone() as T;
+  const distance = kerf / 2;
+  const orphanedPaths: Path[] = [];
+  for (let item of result.allShapesAndOrphanedPaths()) {
+    if (item instanceof Shape) {
+      offsetAwayFromMaterial(item.paths, item.holeFlags(), distance, options);
+    } else if (item.closed) {
+      orphanedPaths.push(item);
+    }
+  }
+  const orphanedHoleFlags = new Shape(orphanedPaths).holeFlags();
+  offsetAwayFromMaterial(orphanedPaths, orphanedHoleFlags, distance, options);
+  return result;
+};
+
+/**
+ * Offsets the closed paths of `paths` by `distance` away from the filled
+ * area, which is outside the paths flagged as holes and inside the others.
+ */
+const offsetAwayFromMaterial = (
+  paths: Path[],
+  holeFlags: boolean[],
+  distance: number,
+  options?: OffsetOptions
+) => {
+  paths.forEach((path, i) => {
+    if (!path.closed) return;
+    // Offsetting by a positive distance moves a clockwise path toward its
+    // inside, which is away from the material for a hole.
+    const towardInside = path.isClockwise() ? distance : -distance;
+    path.offset(holeFlags[i] ? towardInside : -towardInside, options);
+  });
+};
@@ -0,0 +1,137 @@
+import { Anchor } from "./anchor";
+import { Geometry } from "./geometry";
+import { Path } from "./path";
+import { Shape } from "./shape";
+import { Vec } from "./vec";
+
+/**
+ * Returns `path`, if it's closed, as an open path that approaches its first
+ * anchor along `options.leadIn`, goes all the way around, continues past the
+ * first anchor by `options.overcut`, and leaves along `options.leadOut`.
+ * Leads are on the waste side of the path, which is outside it unless
+ * `options.isHole` is true. Open paths are returned as they are.
+ *
+ * @remarks
+ * A "line" lead is straight and square to the path. An "arc" lead is a
+ * quarter circle whose radius is its `length`, which meets the path
+ * tangentially. The result has the style of `path`.
+ */
+export const pathWithLeads = (path: Path, options: LeadOptions = {}) => {
+  const { leadIn, leadOut, overcut = 0, isHole = false } = options;
+  if (!path.closed || path.anchors.length < 2) return path.clone();
+
+  // Open the path at its first anchor and continue around for the overcut.
+  const [loop] = path.clone().splitAtTimes([0]);
+  const { anchors } = loop;
+  if (overcut > 0) {
+    const time = loop.arcLengthTable().timeAtDistance(overcut);
+    const [overcutPath] = loop.clone().splitAtTimes([time]);
+    appendAnchors(anchors, overcutPath.anchors);
+  }
+
+  // Normals point to the left, which is inside a clockwise path.
+  const outside = path.isClockwise() ? -1 : 1;
+  const wasteSide = isHole ? -outside : outside;
+
+  if (leadIn && leadIn.length > 0) {
+    const tangent = loop.tangentAtTime(0);
+    const side = tangent.clone().rotate90().mulScalar(wasteSide);
+    const lead = reversedAnchors(leadAnchors(leadIn, anchors[0].position, tangent.negate(), side));
+    anchors[0].handleIn = lead[lead.length - 1].handleIn.clone();
+    anchors.unshift(...lead.slice(0, -1));
+  }
+  if (leadOut && leadOut.length > 0) {
+    const endTime = anchors.length - 1;
+    const tangent = loop.tangentAtTime(endTime);
+    const side = tangent.clone().rotate90().mulScalar(wasteSide);
+    appendAnchors(anchors, leadAnchors(leadOut, anchors[endTime].position, tangent, side));
+  }
+  return loop.copyStyle(path);
+};
+
+/**
+ * Adds leads and overcut to each closed path of `geometry`, with the leads on
+ * the waste side. Holes get their leads inside them. See `pathWithLeads()`.
+ *
+ * @remarks
+ * Within a Shape, holes are found with the Shape's fill rule, as in
+ * `Shape.holeFlags()`. Closed paths that aren't part of a Shape are treated
+ * as an even-odd Shape among themselves, so a Group of separate paths for a
+ * part and its holes gets its leads in the right places. Paths from a Shape
+ * take the style of the Shape.
+ */
+export const addLeads = (geometry: Geometry, options: LeadOptions = {}) => {
+  const results: Path[] = [];
+  const orphanedPaths: Path[] = [];
+  for (let item of geometry.allShapesAndOrphanedPaths()) {
+    if (item instanceof Shape) {
+      const paths = item.paths.map((path) => path.clone().copyStyle(item));
+      results.push(...pathsWithLeads(paths, item.holeFlags(), options));
+    } else {
+      orphanedPaths.push(item);
+    }
+  }
+  const closedPaths = orphanedPaths.filter((path) => path.closed);
+  const closedHoleFlags = new Shape(closedPaths).holeFlags();
+  const holeFlags = orphanedPaths.map((path) => closedHoleFlags[closedPaths.indexOf(path)]);
+  results.push(...pathsWithLeads(orphanedPaths, holeFlags, options));
+  return results;
+};
+
+export type LeadType = "line" | "arc";
+
+export interface Lead {
+  type?: LeadType;
+  length: number;
+}
+
+export interface LeadOptions {
+  leadIn?: Lead;
+  leadOut?: Lead;
+  overcut?: number;
+  isHole?: boolean;
+}
+
+const pathsWithLeads = (paths: Path[], holeFlags: boolean[], options: LeadOptions) => {
+  return paths.map((path, i) => {
+    if (!path.closed) return path.clone();
+    return pathWithLeads(path, { ...options, isHole: holeFlags[i] });
+  });
+};
+
+/**
+ * Returns the anchors of a lead that leaves `point` in the direction of
+ * `tangent` and ends up `lead.length` away on the side of `side`.
+ */
+const leadAnchors = (lead: Lead, point: Vec, tangent: Vec, side: Vec) => {
+  const { type = "line", length } = lead;
+  if (type === "line") {
+    return [new Anchor(point.clone()), new Anchor(point.clone().add(side.mulScalar(length)))];
+  }
+  // The arc starts out along the tangent and curves a quarter turn toward
+  // `side`, around a center on that side.
+  const center = point.clone().add(side.clone().mulScalar(length));
+  const startAngle = point.clone().sub(center).angle();
+  const isIncreasing = Vec.rotate90(point.clone().sub(center)).dot(tangent) > 0;
+  const endAngle = startAngle + (isIncreasing ? 90 : -90);
+  const anchors = Path.fromArc(center, length, startAngle, endAngle).anchors;
+  anchors[0].position = point.clone();
+  return anchors;
+};
+
+/**
+ * Returns copies of `anchors` in the opposite order, with their handles
+ * swapped, for running along them backwards.
+ */
+const reversedAnchors = (anchors: Anchor[]) => {
+  return new Path(anchors.map((anchor) => anchor.clone())).reverse().anchors;
+};
+
+/**
+ * Appends `next` to `anchors`, where the first anchor of `next` is at the
+ * same place as the last of `anchors`.
+ */
+const appendAnchors = (anchors: Anchor[], next: Anchor[]) => {
+  anchors[anchors.length - 1].handleOut = next[0].handleOut.clone();
+  anchors.push(...next.slice(1));
+};
@@ -0,0 +1,332 @@
+import { Anchor } from "./anchor";
+import { DEFAULT_TOLERANCE } from "./constants";
+import { Path, OffsetOptions } from "./path";
+import {
+  Cubic,
+  cubicByTrimmingCubic,
+  cubicFromSegment,
+  cubicsBySplittingCubicAtTime,
+  isSegmentLinear,
+  partitionedPathIntersections,
+  pointOnCubicAtTime,
+  positionAndTimeAtClosestPointOnCubic,
+  Segment,
+} from "./segment";
+import { pairs } from "./util";
+import { Vec } from "./vec";
+
+// Offsetting a cubic is approximated by a cubic whose end tangents match the
+// original and whose handle lengths are scaled by the curvature at each end.
+// If that isn't within tolerance we subdivide and try again.
+const MAX_SUBDIVISION_DEPTH = 8;
+const ERROR_SAMPLE_TIMES = [0.25, 0.5, 0.75];
+
+/**
+ * Returns the anchors of `path` offset by `distance` in the direction of
+ * `path.normalAtTime()`. Corners are joined according to `options.join`. Each
+ * original anchor corresponds to an anchor in the result, though extra anchors
+ * may be added for joins and for curves that need subdividing to stay within
+ * `options.tolerance`.
+ *
+ * @remarks
+ * Loops created by offsetting further than a curve's radius of curvature, or
+ * by different parts of the path overlapping, are not removed. Where the
+ * pieces on the inside of a corner don't cross, they're joined by a straight
+ * line, or through the original corner if `innerJoin` is "corner". Going
+ * through the corner makes the leftover loops wind the opposite way to the
+ * rest of the path, so they can be removed by filling.
+ */
+export const offsetAnchors = (
+  path: Path,
+  distance: number,
+  options: OffsetOptions = {},
+  innerJoin: "line" | "corner" = "line"
+) => {
+  const { anchors, closed } = path;
+  const { join = "miter", miterLimit = 4, tolerance = DEFAULT_TOLERANCE } = options;
+
+  if (distance === 0 || anchors.length < 2) {
+    return anchors.map((anchor) => anchor.clone());
+  }
+
+  const pieces: OffsetPiece[] = [];
+  for (let segment of pairs(anchors, closed)) {
+    const piece = offsetSegment(segment, distance, tolerance);
+    if (piece) pieces.push(piece);
+  }
+  if (pieces.length === 0) {
+    return anchors.map((anchor) => anchor.clone());
+  }
+
+  const joinPieces = (prev: OffsetPiece, next: OffsetPiece) => {
+    return joinOffsetPieces(prev, next, distance, join, miterLimit, tolerance, innerJoin);
+  };
+
+  const result: Anchor[] = [...pieces[0].anchors];
+  for (let i = 1, n = pieces.length; i < n; ++i) {
+    const next = pieces[i];
+    const { merged, between } = joinPieces(pieces[i - 1], next);
+    if (merged) result.pop();
+    result.push(...between, ...next.anchors);
+  }
+  if (closed) {
+    const { merged, between } = joinPieces(pieces[pieces.length - 1], pieces[0]);
+    if (merged) {
+      result[0] = pieces[0].anchors[0];
+      result.pop();
+    }
+    result.push(...between);
+  }
+
+  return result;
+};
+
+interface OffsetPiece {
+  anchors: Anchor[];
+  // The original anchor position and unit tangents at each end of the segment
+  // this piece was offset from. These are used to construct joins.
+  startCorner: Vec;
+  endCorner: Vec;
+  startTangent: Vec;
+  endTangent: Vec;
+}
+
+const offsetSegment = (
+  segment: Segment,
+  distance: number,
+  tolerance: number
+): OffsetPiece | undefined => {
+  const [a1, a2] = segment;
+  if (isSegmentLinear(segment)) {
+    const tangent = a2.position.clone().sub(a1.position).normalize();
+    if (tangent.isZero()) return undefined;
+    const offset = tangent.clone().rotate90().mulScalar(distance);
+    return {
+      anchors: [
+        new Anchor(a1.position.clone().add(offset)),
+        new Anchor(a2.position.clone().add(offset)),
+      ],
+      startCorner: a1.position,
+      endCorner: a2.position,
+      startTangent: tangent,
+      endTangent: tangent.clone(),
+    };
+  }
+
+  const cubic = cubicFromSegment(segment);
+  const startTangent = startTangentOfCubic(cubic);
+  const endTangent = endTangentOfCubic(cubic);
+  if (startTangent.isZero() || endTangent.isZero()) return undefined;
+
+  return {
+    anchors: offsetCubic(cubic, distance, tolerance, 0),
+    startCorner: a1.position,
+    endCorner: a2.position,
+    startTangent,
+    endTangent,
+  };
+};
+
+const offsetCubic = (
+  cubic: Cubic,
+  distance: number,
+  tolerance: number,
+  depth: number
+): Anchor[] => {
+  const anchors = approximateOffsetCubic(cubic, distance);
+  if (depth >= MAX_SUBDIVISION_DEPTH || offsetCubicError(cubic, anchors, distance) <= tolerance) {
+    return anchors;
+  }
+  const [left, right] = cubicsBySplittingCubicAtTime(cubic, 0.5);
+  const leftAnchors = offsetCubic(left, distance, tolerance, depth + 1);
+  const rightAnchors = offsetCubic(right, distance, tolerance, depth + 1);
+  const shared = leftAnchors.pop()!;
+  rightAnchors[0].handleIn.copy(shared.handleIn);
+  return [...leftAnchors, ...rightAnchors];
+};
+
+const approximateOffsetCubic = ([p0, p1, p2, p3]: Cubic, distance: number) => {
+  const startTangent = startTangentOfCubic([p0, p1, p2, p3]);
+  const endTangent = endTangentOfCubic([p0, p1, p2, p3]);
+
+  // The derivative of an offset curve is the derivative of the original curve
+  // scaled by (1 - distance * curvature), so we scale the handles to match.
+  const startScale = Math.max(0, 1 - distance * curvatureOfCubicAtEnd(p0, p1, p2));
+  const endScale = Math.max(0, 1 - distance * curvatureOfCubicAtEnd(p3, p2, p1, -1));
+
+  const start = new Anchor(
+    startTangent.clone().rotate90().mulScalar(distance).add(p0),
+    new Vec(),
+    p1.clone().sub(p0).mulScalar(startScale)
+  );
+  const end = new Anchor(
+    endTangent.clone().rotate90().mulScalar(distance).add(p3),
+    p2.clone().sub(p3).mulScalar(endScale),
+    new Vec()
+  );
+  return [start, end];
+};
+
+/**
+ * Signed curvature at the start of a cubic with control points p0, p1, p2, or
+ * at the end of a cubic if the points are given in reverse order and `sign` is
+ * -1. Returns 0 if the handle at that end is zero.
+ */
+const curvatureOfCubicAtEnd = (p0: Vec, p1: Vec, p2: Vec, sign = 1) => {
+  const d1 = p1.clone().sub(p0).mulScalar(3);
+  const d2 = p2.clone().sub(p1).sub(p1).add(p0).mulScalar(6);
+  const speed = d1.length();
+  if (speed === 0) return 0;
+  // Reversing the direction of a curve flips the sign of its curvature.
+  return (sign * crossProduct(d1, d2)) / (speed * speed * speed);
+};
+
+const offsetCubicError = (cubic: Cubic, anchors: Anchor[], distance: number) => {
+  const offsetCubic = cubicFromSegment([anchors[0], anchors[1]]);
+  const absDistance = Math.abs(distance);
+  const point = new Vec();
+  let maxError = 0;
+  for (let time of ERROR_SAMPLE_TIMES) {
+    pointOnCubicAtTime(point, offsetCubic, time);
+    const { position } = positionAndTimeAtClosestPointOnCubic(point, cubic);
+    maxError = Math.max(maxError, Math.abs(position.distance(point) - absDistance));
+  }
+  return maxError;
+};
+
+const startTangentOfCubic = ([p0, p1, p2, p3]: Cubic) => {
+  for (let p of [p1, p2, p3]) {
+    if (!p.equals(p0)) return p.clone().sub(p0).normalize();
+  }
+  return new Vec();
+};
+
+const endTangentOfCubic = ([p0, p1, p2, p3]: Cubic) => {
+  for (let p of [p2, p1, p0]) {
+    if (!p.equals(p3)) return p3.clone().sub(p).normalize();
+  }
+  return new Vec();
+};
+
+const crossProduct = (a: Vec, b: Vec) => a.x * b.y - a.y * b.x;
+
+//
+// Joins
+//
+
+const joinOffsetPieces = (
+  prev: OffsetPiece,
+  next: OffsetPiece,
+  distance: number,
+  join: OffsetOptions["join"],
+  miterLimit: number,
+  tolerance: number,
+  innerJoin: "line" | "corner"
+): { merged: boolean; between: Anchor[] } => {
+  const end = prev.anchors[prev.anchors.length - 1];
+  const start = next.anchors[0];
+
+  if (end.position.distance(start.position) <= tolerance) {
+    start.position.copy(end.position);
+    start.handleIn.copy(end.handleIn);
+    return { merged: true, between: [] };
+  }
+
+  const tangentIn = prev.endTangent;
+  const tangentOut = next.startTangent;
+  const turn = crossProduct(tangentIn, tangentOut);
+  const isOuter = distance * turn < 0 || (turn === 0 && tangentIn.dot(tangentOut) < 0);
+
+  if (!isOuter) {
+    // On the inside of a corner the offset pieces overlap. Trim them back to
+    // where they cross if we can find it, otherwise join them.
+    if (trimOffsetPiecesToIntersection(prev, next)) {
+      return { merged: true, between: [] };
+    }
+    const between = innerJoin === "corner" ? [new Anchor(prev.endCorner.clone())] : [];
+    return { merged: false, between };
+  }
+
+  const corner = prev.endCorner;
+  if (join === "round") {
+    const radius = Math.abs(distance);
+    const startAngle = end.position.clone().sub(corner).angle();
+    let sweepAngle = start.position.clone().sub(corner).angle() - startAngle;
+    if (sweepAngle > 180) sweepAngle -= 360;
+    else if (sweepAngle <= -180) sweepAngle += 360;
+    const arc = Path.fromArc(corner, radius, startAngle, startAngle + sweepAngle);
+    const arcAnchors = arc.anchors;
+    end.handleOut.copy(arcAnchors[0].handleOut);
+    start.handleIn.copy(arcAnchors[arcAnchors.length - 1].handleIn);
+    return { merged: false, between: arcAnchors.slice(1, -1) };
+  }
+  if (join === "miter") {
+    const miterPoint = lineLineIntersectionPoint(
+      end.position,
+      tangentIn,
+      start.position,
+      tangentOut
+    );
+    if (miterPoint && miterPoint.distance(corner) <= miterLimit * Math.abs(distance)) {
+      return { merged: false, between: [new Anchor(miterPoint)] };
+    }
+  }
+  // Bevel
+  return { merged: false, between: [] };
+};
+
+const trimOffsetPiecesToIntersection = (prev: OffsetPiece, next: OffsetPiece) => {
+  const n = prev.anchors.length;
+  const prevSegment: Segment = [prev.anchors[n - 2], prev.anchors[n - 1]];
+  const nextSegment: Segment = [next.anchors[0], next.anchors[1]];
+  const intersections = partitionedPathIntersections(
+    [new Path(prevSegment)],
+    [new Path(nextSegment)]
+  );
+  if (intersections.length === 0) return false;
+
+  // Use the crossing closest to the end of the previous segment.
+  let { time1, time2, position } = intersections[0];
+  for (let intersection of intersections) {
+    if (intersection.time1 > time1) ({ time1, time2, position } = intersection);
+  }
+
+  trimSegment(prevSegment, 0, time1);
+  trimSegment(nextSegment, time2, 1);
+  prevSegment[1].position.copy(position);
+  nextSegment[0].position.copy(position);
+  nextSegment[0].handleIn.copy(prevSegment[1].handleIn);
+  return true;
+};
+
+/**
+ * Mutates the anchors of `segment` so that it only covers the portion of the
+ * original segment between `startTime` and `endTime`.
+ */
+const trimSegment = (segment: Segment, startTime: number, endTime: number) => {
+  const [a1, a2] = segment;
+  if (isSegmentLinear(segment)) {
+    const p1 = a1.position.clone();
+    const p2 = a2.position.clone();
+    a1.position.copy(p1).mix(p2, startTime);
+    a2.position.copy(p1).mix(p2, endTime);
+    return;
+  }
+  const cubic = cubicByTrimmingCubic(cubicFromSegment(segment), startTime, endTime);
+  a1.position = cubic[0].clone();
+  a1.handleOut = cubic[1].clone().sub(cubic[0]);
+  a2.position = cubic[3].clone();
+  a2.handleIn = cubic[2].clone().sub(cubic[3]);
+};
+
+/**
+ * Returns the point where the infinite line through p1 in direction d1 crosses
+ * the infinite line through p2 in direction d2, or undefined if the lines are
+ * parallel.
+ */
+const lineLineIntersectionPoint = (p1: Vec, d1: Vec, p2: Vec, d2: Vec) => {
+  const denom = crossProduct(d1, d2);
+  if (denom === 0) return undefined;
+  const t = crossProduct(p2.clone().sub(p1), d2) / denom;
+  return d1.clone().mulScalar(t).add(p1);
+};
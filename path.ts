@@ -1,16 +1,28 @@
 import { Anchor } from "./anchor";
+import { PathArcLengthTable } from "./arc-length";
+import { timesWherePathMeetsPaths } from "./arrangement";
+import { biarcsFromCubic } from "./biarc";
 import { BoundingBox } from "./bounding-box";
 import { dummyCanvasCtx, paintToCanvas, styleContainsPoint } from "./canvas";
-import { ClosestPointResult, ExportOptions, Geometry } from "./geometry";
+import { DEFAULT_TOLERANCE, RADIANS_PER_DEGREE, TWO_PI } from "./constants";
+import { anchorsFromCubics, fitCubics, fitCurvesToAnchors, simplifyLinearAnchors } from "./fit";
+import { AreaMoments, ClosestPointResult, ExportOptions, Geometry, Polyline } from "./geometry";
 import { Group } from "./group";
-import { clamp, tan } from "./math";
+import { LeadOptions, pathWithLeads } from "./leads";
+import { clamp, cos, sin, tan } from "./math";
 import { AffineMatrix } from "./matrix";
-import { computeTightBoundingBox } from "./pathkit";
+import { offsetAnchors } from "./offset";
 import {
+  accumulateAreaMomentsOfCubic,
   bezierFromSegment,
+  Cubic,
   cubicFromSegment,
   cubicsBySplittingCubicAtTime,
+  curvatureExtremaTimesOfCubic,
+  curvatureOfCubicAtTime,
   distanceBetweenBezierPoints,
+  flattenCubic,
+  inflectionTimesOfCubic,
   isSegmentLinear,
   lineFromSegment,
   partialSegmentLength,
@@ -20,11 +32,16 @@ import {
   positionAndTimeAtClosestPointOnLine,
   Segment,
   segmentLength,
+  tightBoundingBoxOfCubic,
   vecFromBezierPoint,
+  windingContributionOfCubic,
+  windingContributionOfLine,
 } from "./segment";
 import { Shape } from "./shape";
-import { Fill, Stroke } from "./style";
+import { addTabs, TabOptions } from "./tabs";
+import { Fill, FillRule, Stroke, StrokeJoin } from "./style";
 import { pathOrShapeToSVGString } from "./svg";
+import { relativeSVGPathStringForPath } from "./svg-path";
 import { pairs, rotateArray } from "./util";
 import { Vec } from "./vec";
 
@@ -36,13 +53,21 @@ export class Path extends Geometry {
 
   stroke?: Stroke;
   fill?: Fill;
-
-  constructor(anchors: Anchor[] = [], closed = false, stroke?: Stroke, fill?: Fill) {
+  fillRule: FillRule;
+
+  constructor(
+    anchors: Anchor[] = [],
+    closed = false,
+    stroke?: Stroke,
+    fill?: Fill,
+    fillRule: FillRule = "evenodd"
+  ) {
     super();
     this.anchors = anchors;
     this.closed = closed;
     this.stroke = stroke;
     this.fill = fill;
+    this.fillRule = fillRule;
   }
 
   clone() {
@@ -50,7 +75,8 @@ export class Path extends Geometry {
       this.anchors.map((anchor) => anchor.clone()),
       this.closed,
       this.stroke?.clone(),
-      this.fill?.clone()
+      this.fill?.clone(),
+      this.fillRule
     );
   }
 
@@ -59,7 +85,8 @@ export class Path extends Geometry {
       Array.isArray(this.anchors) &&
       this.anchors.every(Anchor.isValid) &&
       (this.stroke === undefined || Stroke.isValid(this.stroke)) &&
-      (this.fill === undefined || Fill.isValid(this.fill))
+      (this.fill === undefined || Fill.isValid(this.fill)) &&
+      Fill.isValidFillRule(this.fillRule)
     );
   }
 
@@ -107,6 +134,11 @@ export class Path extends Geometry {
     return this;
   }
 
+  assignFillRule(fillRule: FillRule) {
+    this.fillRule = fillRule;
+    return this;
+  }
+
   assignStyle(fill: Fill, stroke: Stroke) {
     this.stroke = stroke?.clone();
     this.fill = fill?.clone();
@@ -119,6 +151,7 @@ export class Path extends Geometry {
     } else if (item instanceof Path || item instanceof Shape) {
       this.stroke = item.stroke?.clone();
       this.fill = item.fill?.clone();
+      this.fillRule = item.fillRule;
     }
     return this;
   }
@@ -202,6 +235,10 @@ export class Path extends Geometry {
     return pathOrShapeToSVGString(this, options);
   }
   toSVGPathString(options?: ExportOptions) {
+    if (options?.useRelativeSVGPathCommands) {
+      return relativeSVGPathStringForPath(this, options);
+    }
+
     const toString = (x: number) => {
       if (options?.maxPrecision !== undefined) {
         return x.toFixed(options.maxPrecision);
@@ -301,10 +338,19 @@ export class Path extends Geometry {
   }
 
   tightBoundingBox(): BoundingBox {
-    if (this.anchors.length === 1) {
-      return this.anchors[0].tightBoundingBox();
+    const { anchors, closed } = this;
+
+    if (anchors.length === 0) return new BoundingBox();
+
+    const box = anchors[0].tightBoundingBox();
+    for (let segment of pairs(anchors, closed)) {
+      if (isSegmentLinear(segment)) {
+        box.expandToIncludePoint(segment[1].position);
+      } else {
+        box.expandToIncludeBoundingBox(tightBoundingBoxOfCubic(cubicFromSegment(segment)));
+      }
     }
-    return computeTightBoundingBox(this);
+    return box;
   }
 
   isContainedByBoundingBox(box: BoundingBox) {
@@ -328,13 +374,66 @@ export class Path extends Geometry {
     if (!this.closed) return false;
     dummyCanvasCtx.beginPath();
     this.toCanvasPath(dummyCanvasCtx);
-    return dummyCanvasCtx.isPointInPath(point.x, point.y, "evenodd");
+    return dummyCanvasCtx.isPointInPath(point.x, point.y, this.fillRule);
   }
 
   styleContainsPoint(point: Vec) {
     return styleContainsPoint(this, point);
   }
 
+  /**
+   * Returns the winding number of this path around `point`: the number of
+   * times the path winds counter-clockwise around it in y-up coordinates (or
+   * clockwise in y-down coordinates, as in SVG) minus the number of times it
+   * winds the other way. Open paths are treated as if they were closed.
+   */
+  windingNumberAtPoint(point: Vec) {
+    let winding = 0;
+    for (let segment of pairs(this.anchors, true)) {
+      if (isSegmentLinear(segment)) {
+        winding += windingContributionOfLine(point, segment[0].position, segment[1].position);
+      } else {
+        winding += windingContributionOfCubic(point, cubicFromSegment(segment));
+      }
+    }
+    return winding;
+  }
+
+  /**
+   * Returns the area moments of the region enclosed by this path. Moments are
+   * always positive regardless of the direction of the path. Open paths don't
+   * enclose any area.
+   */
+  areaMoments(): AreaMoments {
+    const moments = signedAreaMomentsOfPath(this);
+    if (moments.area < 0) {
+      moments.area = -moments.area;
+      moments.mx = -moments.mx;
+      moments.my = -moments.my;
+      moments.mxx = -moments.mxx;
+      moments.myy = -moments.myy;
+      moments.mxy = -moments.mxy;
+    }
+    return moments;
+  }
+
+  /**
+   * Returns the area enclosed by this path, positive if the path runs
+   * clockwise in y-down coordinates (as in SVG) and negative if it runs
+   * counter-clockwise. Open paths don't enclose any area.
+   */
+  signedArea() {
+    return signedAreaMomentsOfPath(this).area;
+  }
+
+  /**
+   * Returns true if this path runs clockwise in y-down coordinates, as it
+   * appears on screen.
+   */
+  isClockwise() {
+    return this.signedArea() > 0;
+  }
+
   reverse() {
     for (let anchor of this.anchors) {
       anchor.reverse();
@@ -413,6 +512,16 @@ export class Path extends Geometry {
     return distance;
   }
 
+  /**
+   * Returns a table for converting between time and distance along this path
+   * many times. This is much faster than calling `timeAtDistance()` or
+   * `distanceAtTime()` repeatedly, for example when placing many copies of
+   * something along a path.
+   */
+  arcLengthTable(tolerance = DEFAULT_TOLERANCE) {
+    return new PathArcLengthTable(this, tolerance);
+  }
+
   positionAtTime(time: number) {
     const { anchors, closed } = this;
     if (anchors.length === 0) return new Vec(); // TODO (ryan): Maybe return null here?
@@ -496,6 +605,72 @@ export class Path extends Geometry {
     return this.tangentAtTime(time).rotate90();
   }
 
+  /**
+   * Returns the signed curvature of this path at `time`, which is the
+   * reciprocal of the radius of curvature. Curvature is positive where the
+   * path turns towards `normalAtTime()` and zero along straight segments. At
+   * an anchor, this is the curvature at the start of the following segment.
+   */
+  curvatureAtTime(time: number) {
+    const { anchors, closed } = this;
+    if (anchors.length < 2) return 0;
+
+    time = normalizeTimeForPath(time, this);
+    let anchorIndex = time | 0;
+    if (!closed && anchorIndex === anchors.length - 1) anchorIndex--;
+
+    let nextAnchorIndex = anchorIndex + 1;
+    if (closed) nextAnchorIndex %= anchors.length;
+
+    const segment: Segment = [anchors[anchorIndex], anchors[nextAnchorIndex]];
+    if (isSegmentLinear(segment)) return 0;
+    return curvatureOfCubicAtTime(cubicFromSegment(segment), time - anchorIndex);
+  }
+
+  /**
+   * Returns the times at which the curvature of this path changes sign within
+   * a segment, in increasing order. Changes in direction at anchors are not
+   * included.
+   */
+  inflectionTimes() {
+    return timesWithinCurvedSegmentsOfPath(this, inflectionTimesOfCubic);
+  }
+
+  /**
+   * Returns the times at which the signed curvature of this path has a local
+   * minimum or maximum within a segment, in increasing order. These are good
+   * places for anchors when refitting a curve.
+   */
+  curvatureExtremaTimes() {
+    return timesWithinCurvedSegmentsOfPath(this, curvatureExtremaTimesOfCubic);
+  }
+
+  /**
+   * Returns the smallest radius of curvature along each segment of this path,
+   * and the time at which it occurs. Straight segments have an infinite
+   * radius.
+   *
+   * @remarks
+   * A cubic segment with one zero-length handle has a radius of zero at that
+   * end. Tools with a minimum turning radius can't follow it exactly there.
+   */
+  minimumRadiusOfCurvature(): SegmentRadiusOfCurvature[] {
+    return pairs(this.anchors, this.closed).map((segment, index) => {
+      if (isSegmentLinear(segment)) return { time: index, radius: Infinity };
+      const cubic = cubicFromSegment(segment);
+      let maxCurvature = 0;
+      let maxTime = 0;
+      for (let t of [0, ...curvatureExtremaTimesOfCubic(cubic), 1]) {
+        const curvature = Math.abs(curvatureOfCubicAtTime(cubic, t));
+        if (curvature > maxCurvature) {
+          maxCurvature = curvature;
+          maxTime = t;
+        }
+      }
+      return { time: index + maxTime, radius: 1 / maxCurvature };
+    });
+  }
+
   insertAnchorAtTime(time: number) {
     const { anchors, closed } = this;
 
@@ -566,6 +741,110 @@ export class Path extends Geometry {
     return [this];
   }
 
+  /**
+   * Splits this path at each of `times` and returns the pieces in order.
+   * Times at the ends of an open path are ignored. A closed path is opened at
+   * the first time, so it returns as many pieces as there are times.
+   *
+   * @remarks
+   * Like `splitAtTime()`, this inserts anchors into this path. The pieces
+   * don't share anchors with this path or each other.
+   */
+  splitAtTimes(times: number[]) {
+    const { anchors, closed } = this;
+    if (anchors.length < 2) return [this.clone()];
+
+    // Insert anchors from the end of the path backwards so that earlier times
+    // still refer to the same places. When two times fall on one segment, the
+    // earlier one is rescaled to the part of the segment that's left.
+    const sortedTimes = Array.from(new Set(times.map((t) => normalizeTimeForPath(t, this))));
+    sortedTimes.sort((a, b) => b - a);
+    const splitAnchors = new Set<Anchor>();
+    let prevIndex = -1;
+    let prevFraction = 1;
+    for (let time of sortedTimes) {
+      if (!closed && (time <= 0 || time >= anchors.length - 1)) continue;
+      const index = Math.floor(time);
+      const fraction = time - index;
+      const scale = index === prevIndex ? prevFraction : 1;
+      const anchor = this.insertAnchorAtTime(index + fraction / scale);
+      if (anchor) splitAnchors.add(anchor);
+      prevIndex = index;
+      prevFraction = fraction;
+    }
+    if (splitAnchors.size === 0) return [this.clone()];
+
+    let pathAnchors = anchors.map((anchor) => anchor.clone());
+    const isSplit = anchors.map((anchor) => splitAnchors.has(anchor));
+    if (closed) {
+      const first = isSplit.indexOf(true);
+      pathAnchors = [...pathAnchors.slice(first), ...pathAnchors.slice(0, first + 1)];
+      rotateArray(isSplit, first);
+      pathAnchors[pathAnchors.length - 1] = pathAnchors[0].clone();
+    }
+    const pieces: Path[] = [];
+    let current: Anchor[] = [pathAnchors[0]];
+    for (let i = 1, n = pathAnchors.length; i < n; ++i) {
+      current.push(pathAnchors[i]);
+      if (i < n - 1 && isSplit[i]) {
+        pieces.push(new Path(current));
+        current = [pathAnchors[i].clone()];
+      }
+    }
+    pieces.push(new Path(current));
+    return pieces;
+  }
+
+  /**
+   * Cuts this path into open pieces at every place it crosses one of
+   * `cutters`. The pieces keep the style of this path.
+   */
+  splitByPaths(cutters: Path[]) {
+    const pieces = this.clone().splitAtTimes(timesWherePathMeetsPaths(this, cutters));
+    return new Group(pieces.map((piece) => piece.copyStyle(this)));
+  }
+
+  /**
+   * Returns the pieces of this path that lie inside the area filled by
+   * `shape`, or outside it if `keep` is "outside". The path is cut wherever
+   * it crosses the boundary of the shape, and the pieces stay open. The
+   * pieces keep the style of this path.
+   *
+   * @remarks
+   * Each piece is tested at its middle with `shape.containsPoint()`, so the
+   * shape's fill rule is respected. A closed path that doesn't cross the
+   * boundary is kept or dropped as a whole and stays closed.
+   */
+  clipToShape(shape: Shape, options: ClipOptions = {}) {
+    const { keep = "inside" } = options;
+    return this.clone()
+      .splitAtTimes(timesWherePathMeetsPaths(this, shape.paths))
+      .filter((piece) => {
+        const { anchors, closed } = piece;
+        if (anchors.length === 0) return false;
+        const middle = piece.positionAtTime((closed ? anchors.length : anchors.length - 1) / 2);
+        return shape.containsPoint(middle) === (keep === "inside");
+      })
+      .map((piece) => piece.copyStyle(this));
+  }
+
+  /**
+   * Returns this path, if it's closed, as an open path with a lead-in, an
+   * overcut past its first anchor, and a lead-out, on the waste side of the
+   * path. See `pathWithLeads()`.
+   */
+  withLeads(options?: LeadOptions) {
+    return pathWithLeads(this, options);
+  }
+
+  /**
+   * Breaks this path, if it's closed, into open paths with gaps between them
+   * for holding tabs, and reports where the tabs were placed. See `addTabs()`.
+   */
+  addTabs(options: TabOptions) {
+    return addTabs(this, options);
+  }
+
   roundCornerInfoAtAnchor(anchor: Anchor, radius: number) {
     if (radius <= 0) return null;
     const { anchors, closed } = this;
@@ -695,6 +974,145 @@ export class Path extends Geometry {
     return this;
   }
 
+  /**
+   * Returns the points of a polyline approximating this path, adaptively
+   * subdivided so that no point on the original curves is further than
+   * `tolerance` from the polyline. Linear segments are not subdivided. Each
+   * point is returned with its time and original segment index.
+   */
+  toPolyline(tolerance = DEFAULT_TOLERANCE): Polyline {
+    const { anchors, closed } = this;
+    const polyline: Polyline = { points: [], times: [], segmentIndices: [], closed };
+    if (anchors.length === 0) return polyline;
+
+    const { points, times, segmentIndices } = polyline;
+    points.push(anchors[0].position.clone());
+    times.push(0);
+    segmentIndices.push(0);
+
+    const segments = pairs(anchors, closed);
+    for (let i = 0, n = segments.length; i < n; ++i) {
+      const segment = segments[i];
+      const pointCount = points.length;
+      if (isSegmentLinear(segment)) {
+        points.push(segment[1].position.clone());
+        times.push(i + 1);
+      } else {
+        flattenCubic(cubicFromSegment(segment), tolerance, points, times, i);
+      }
+      for (let j = pointCount; j < points.length; ++j) segmentIndices.push(i);
+    }
+
+    if (closed && points.length > 1) {
+      // The last point is the same as the first.
+      points.pop();
+      times.pop();
+      segmentIndices.pop();
+    }
+
+    return polyline;
+  }
+
+  /**
+   * Returns lines and circular arcs within `tolerance` of this path, in order
+   * along it, for machines and file formats that support true arcs. Straight
+   * segments become single lines, and each curved segment becomes as few
+   * arcs as fit within `tolerance`, meeting with the same tangent.
+   *
+   * @remarks
+   * Zero-length segments are left out. Arcs sweep by their `sweepAngle` in
+   * degrees, where a positive sweep turns from the positive x axis toward the
+   * positive y axis, which is clockwise on screen.
+   *
+   * @param tolerance maximum distance between the original path and the result
+   */
+  toBiarcs(tolerance = DEFAULT_TOLERANCE): ArcOrLinePrimitive[] {
+    const primitives: ArcOrLinePrimitive[] = [];
+    for (let segment of pairs(this.anchors, this.closed)) {
+      if (isSegmentLinear(segment)) {
+        const [start, end] = lineFromSegment(segment);
+        if (!start.equals(end)) {
+          primitives.push({ type: "line", start: start.clone(), end: end.clone() });
+        }
+      } else {
+        primitives.push(...biarcsFromCubic(cubicFromSegment(segment), tolerance));
+      }
+    }
+    return primitives;
+  }
+
+  /**
+   * Makes the path a polyline (that is, a path with only straight segments)
+   * that is within `tolerance` of the original path. Unlike `polygonize`, this
+   * leaves straight segments alone and places more anchors on tighter curves.
+   *
+   * @remarks
+   * Calling this will replace `this.anchors`.
+   *
+   * @param tolerance maximum distance between the original path and the result
+   * @chainable
+   */
+  flatten(tolerance = DEFAULT_TOLERANCE) {
+    const { points } = this.toPolyline(tolerance);
+    this.anchors = points.map((point) => new Anchor(point));
+    return this;
+  }
+
+  /**
+   * Offsets the path by `distance` in the direction of `normalAtTime()`, so a
+   * negative distance offsets to the other side. Curves are approximated with
+   * cubic segments to within `options.tolerance`. Works on both open and closed
+   * paths.
+   *
+   * @remarks
+   * Calling this will replace `this.anchors`. Where possible each original
+   * anchor has a corresponding anchor in the result.
+   *
+   * @param distance distance to offset by, in project units
+   * @param options join style, miter limit and tolerance
+   * @chainable
+   */
+  offset(distance: number, options?: OffsetOptions) {
+    this.anchors = offsetAnchors(this, distance, options);
+    return this;
+  }
+
+  /**
+   * Replaces runs of straight segments (such as those created by `polygonize`,
+   * or imported from a scan or DXF polyline) with as few smooth cubic segments
+   * as possible while staying within `tolerance` of the original anchors.
+   *
+   * @remarks
+   * Calling this will replace `this.anchors`. Curved segments are left as they
+   * are. Anchors where the path turns by more than `cornerAngle` are kept as
+   * sharp corners.
+   *
+   * @param tolerance maximum distance from an original anchor to the result
+   * @param cornerAngle minimum turning angle in degrees to treat as a corner
+   * @chainable
+   */
+  fitCurves(tolerance = DEFAULT_TOLERANCE, cornerAngle = 45) {
+    this.anchors = fitCurvesToAnchors(this, tolerance, cornerAngle);
+    return this;
+  }
+
+  /**
+   * Removes anchors from runs of straight segments using the Douglas-Peucker
+   * algorithm, such that no removed anchor is further than `tolerance` from the
+   * simplified path.
+   *
+   * @remarks
+   * Calling this will replace `this.anchors`. Anchors that have curved segments
+   * on either side are kept.
+   *
+   * @param tolerance maximum distance from a removed anchor to the result
+   * @chainable
+   */
+  simplifyPolyline(tolerance = DEFAULT_TOLERANCE) {
+    this.anchors = simplifyLinearAnchors(this, tolerance);
+    return this;
+  }
+
   closestPointWithinDistanceToPoint(maxDistance: number, point: Vec): ClosestPointResult {
     const closestResult: ClosestPointResult = { distance: Infinity };
     const { anchors, closed } = this;
@@ -817,8 +1235,390 @@ export class Path extends Geometry {
 
     return path;
   }
+
+  /**
+   * Returns an arc of an ellipse with the given `radii` along its own x and y
+   * axes, rotated by `rotation` degrees about its `center`. Angles are in
+   * degrees and measured in the ellipse's own frame, as if it were a circle
+   * that had been stretched to the given radii and then rotated.
+   */
+  static fromEllipticalArc(
+    center: Vec,
+    radii: Vec,
+    rotation: number,
+    startAngle: number,
+    endAngle: number
+  ) {
+    // Affine transformations map cubics to cubics exactly, so a stretched
+    // circular arc is as good an approximation as the circular arc itself.
+    const path = Path.fromArc(new Vec(), 1, startAngle, endAngle);
+    path.transform({ position: center, rotation, scale: radii });
+    return path;
+  }
+
+  static fromEllipse(center: Vec, radii: Vec, rotation = 0) {
+    const path = Path.fromEllipticalArc(center, radii, rotation, 0, 360);
+    // The full arc ends where it starts, so merge the last anchor into the first.
+    const lastAnchor = path.anchors.pop()!;
+    path.anchors[0].handleIn = lastAnchor.handleIn;
+    path.closed = true;
+    return path;
+  }
+
+  /**
+   * Returns an elliptical arc from `p1` to `p2` using the same parameters as
+   * the SVG arc command. Of the four arcs that join the points with the given
+   * radii and `rotation`, `largeArc` selects one that sweeps more than 180
+   * degrees and `sweep` selects one that runs in the direction of increasing
+   * angle (clockwise in y-down coordinates, as in SVG).
+   *
+   * @remarks
+   * As in SVG, radii that are too small to reach between the points are scaled
+   * up until they do, and an arc with a zero radius is a straight line. If `p1`
+   * and `p2` are the same, the path has a single anchor.
+   */
+  static fromSVGArc(
+    p1: Vec,
+    p2: Vec,
+    rx: number,
+    ry: number,
+    rotation: number,
+    largeArc: boolean,
+    sweep: boolean
+  ) {
+    if (p1.equals(p2)) return new Path([new Anchor(p1.clone())]);
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx === 0 || ry === 0) return Path.fromPoints([p1.clone(), p2.clone()]);
+
+    // Endpoint to center conversion from the SVG specification
+    // https://www.w3.org/TR/SVG/implnote.html#ArcImplementationNotes
+    const cosPhi = cos(rotation);
+    const sinPhi = sin(rotation);
+    const dx = (p1.x - p2.x) / 2;
+    const dy = (p1.y - p2.y) / 2;
+    const x1 = cosPhi * dx + sinPhi * dy;
+    const y1 = -sinPhi * dx + cosPhi * dy;
+
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+
+    const rx2 = rx * rx;
+    const ry2 = ry * ry;
+    const numerator = rx2 * ry2 - rx2 * y1 * y1 - ry2 * x1 * x1;
+    const denominator = rx2 * y1 * y1 + ry2 * x1 * x1;
+    const sign = largeArc === sweep ? -1 : 1;
+    const coefficient = sign * Math.sqrt(Math.max(0, numerator / denominator));
+    const cx1 = (coefficient * rx * y1) / ry;
+    const cy1 = (-coefficient * ry * x1) / rx;
+    const center = new Vec(
+      cosPhi * cx1 - sinPhi * cy1 + (p1.x + p2.x) / 2,
+      sinPhi * cx1 + cosPhi * cy1 + (p1.y + p2.y) / 2
+    );
+
+    const startAngle = new Vec((x1 - cx1) / rx, (y1 - cy1) / ry).angle();
+    const endAngle = new Vec((-x1 - cx1) / rx, (-y1 - cy1) / ry).angle();
+    let sweepAngle = endAngle - startAngle;
+    if (sweep && sweepAngle < 0) sweepAngle += 360;
+    else if (!sweep && sweepAngle > 0) sweepAngle -= 360;
+
+    const path = Path.fromEllipticalArc(
+      center,
+      new Vec(rx, ry),
+      rotation,
+      startAngle,
+      startAngle + sweepAngle
+    );
+    // Make the ends match exactly.
+    path.anchors[0].position.copy(p1);
+    path.anchors[path.anchors.length - 1].position.copy(p2);
+    return path;
+  }
+
+  /**
+   * Returns a closed polygon with `sides` equal sides whose corners lie on a
+   * circle of `radius` around `center`. The first corner is at `rotation`
+   * degrees.
+   */
+  static fromRegularPolygon(center: Vec, radius: number, sides: number, rotation = 0) {
+    sides = Math.floor(sides);
+    if (sides < 3) throw `A regular polygon needs at least 3 sides, got ${sides}`;
+    const points: Vec[] = [];
+    for (let i = 0; i < sides; ++i) {
+      points.push(new Vec(radius, 0).rotate(rotation + (i * 360) / sides).add(center));
+    }
+    return Path.fromPoints(points, true);
+  }
+
+  /**
+   * Returns a closed star with `points` points at `outerRadius` from `center`,
+   * alternating with inner corners at `innerRadius`. The first point is at
+   * `rotation` degrees.
+   */
+  static fromStar(
+    center: Vec,
+    outerRadius: number,
+    innerRadius: number,
+    points: number,
+    rotation = 0
+  ) {
+    points = Math.floor(points);
+    if (points < 2) throw `A star needs at least 2 points, got ${points}`;
+    const corners: Vec[] = [];
+    const angle = 180 / points;
+    for (let i = 0; i < points * 2; ++i) {
+      const radius = i % 2 === 0 ? outerRadius : innerRadius;
+      corners.push(new Vec(radius, 0).rotate(rotation + i * angle).add(center));
+    }
+    return Path.fromPoints(corners, true);
+  }
+
+  /**
+   * Returns a closed rectangle with elliptical rounded corners. `radii` can be
+   * a single radius, a Vec with separate x and y radii, or an array with a
+   * radius for each corner in the order top left, top right, bottom right,
+   * bottom left (where top is the minimum y).
+   *
+   * @remarks
+   * As in CSS, if the radii of adjacent corners add up to more than the length
+   * of the side between them, all radii are scaled down to fit. Corners with a
+   * zero radius have a single sharp anchor.
+   */
+  static fromRoundedRect(box: BoundingBox, radii: number | Vec | (number | Vec)[]) {
+    const { min, max } = box;
+    const width = max.x - min.x;
+    const height = max.y - min.y;
+
+    const toVec = (radius: number | Vec) => {
+      if (radius instanceof Vec) return new Vec(Math.abs(radius.x), Math.abs(radius.y));
+      return new Vec(Math.abs(radius), Math.abs(radius));
+    };
+    const cornerRadii = Array.isArray(radii)
+      ? [0, 1, 2, 3].map((i) => toVec(radii[i] ?? 0))
+      : [0, 1, 2, 3].map(() => toVec(radii));
+
+    const [tl, tr, br, bl] = cornerRadii;
+    const scale = Math.min(
+      1,
+      width / (tl.x + tr.x),
+      height / (tr.y + br.y),
+      width / (br.x + bl.x),
+      height / (bl.y + tl.y)
+    );
+    if (scale < 1) cornerRadii.forEach((radius) => radius.mulScalar(scale));
+
+    // Each corner, with the angle at which its arc starts going clockwise (in
+    // y-down coordinates), and the direction from the corner to the arc center.
+    const corners = [
+      { corner: new Vec(min.x, min.y), startAngle: 180, inward: new Vec(1, 1) },
+      { corner: new Vec(max.x, min.y), startAngle: 270, inward: new Vec(-1, 1) },
+      { corner: new Vec(max.x, max.y), startAngle: 0, inward: new Vec(-1, -1) },
+      { corner: new Vec(min.x, max.y), startAngle: 90, inward: new Vec(1, -1) },
+    ];
+    const isRounded = (radius: Vec) => radius.x > 0 && radius.y > 0;
+    const anchors: Anchor[] = [];
+    corners.forEach(({ corner, startAngle, inward }, i) => {
+      const radius = cornerRadii[i];
+      if (!isRounded(radius)) {
+        anchors.push(new Anchor(corner));
+        return;
+      }
+      const center = corner.clone().add(inward.mul(radius));
+      const arc = Path.fromEllipticalArc(center, radius, 0, startAngle, startAngle + 90);
+      // Snap the ends of the arc onto the sides exactly.
+      const [first, last] = [arc.anchors[0], arc.anchors[arc.anchors.length - 1]];
+      first.position.set(
+        center.x + Math.round(cos(startAngle)) * radius.x,
+        center.y + Math.round(sin(startAngle)) * radius.y
+      );
+      last.position.set(
+        center.x + Math.round(cos(startAngle + 90)) * radius.x,
+        center.y + Math.round(sin(startAngle + 90)) * radius.y
+      );
+      const prevAnchor = anchors[anchors.length - 1];
+      if (prevAnchor?.position.equalsWithinRelativeEpsilon(first.position, 1e-12)) {
+        // The radii fill the whole side, so there's no straight part.
+        prevAnchor.handleOut.copy(first.handleOut);
+        anchors.push(...arc.anchors.slice(1));
+      } else {
+        anchors.push(...arc.anchors);
+      }
+    });
+    if (
+      anchors[anchors.length - 1].position.equalsWithinRelativeEpsilon(anchors[0].position, 1e-12)
+    ) {
+      anchors[0].handleIn.copy(anchors[anchors.length - 1].handleIn);
+      anchors.pop();
+    }
+
+    // Start at the top end of the top left corner, like an SVG rect.
+    if (isRounded(cornerRadii[0]) && anchors[0].position.y !== min.y) rotateArray(anchors, 1);
+    return new Path(anchors, true);
+  }
+
+  /**
+   * Returns a closed superellipse, the curve where
+   * |x / radii.x|^exponent + |y / radii.y|^exponent = 1, around `center`.
+   * An exponent of 2 gives an ellipse, larger exponents approach a rectangle,
+   * 1 gives a diamond and smaller exponents give concave stars.
+   *
+   * @remarks
+   * The curve is sampled and fit with cubics to within `tolerance`. There is an
+   * anchor at each end of each axis.
+   */
+  static fromSuperellipse(
+    center: Vec,
+    radii: Vec,
+    exponent: number,
+    tolerance = DEFAULT_TOLERANCE
+  ) {
+    const power = 2 / exponent;
+    const pointAtAngle = (angle: number) => {
+      const c = cos(angle);
+      const s = sin(angle);
+      return new Vec(
+        center.x + radii.x * Math.sign(c) * Math.pow(Math.abs(c), power),
+        center.y + radii.y * Math.sign(s) * Math.pow(Math.abs(s), power)
+      );
+    };
+
+    const cubics: Cubic[] = [];
+    for (let quadrant = 0; quadrant < 4; ++quadrant) {
+      const startAngle = quadrant * 90;
+      const points: Vec[] = [];
+      for (let i = 0; i <= SUPERELLIPSE_SAMPLES_PER_QUADRANT; ++i) {
+        points.push(pointAtAngle(startAngle + (i * 90) / SUPERELLIPSE_SAMPLES_PER_QUADRANT));
+      }
+      // The tangent at each axis is perpendicular to it if the curve is smooth
+      // there, or along it if the curve has a cusp there.
+      const first = points[0];
+      const last = points[points.length - 1];
+      let startTangent: Vec;
+      let endTangent: Vec;
+      if (exponent > 1) {
+        startTangent = new Vec(1, 0).rotate(startAngle + 90);
+        endTangent = new Vec(1, 0).rotate(startAngle);
+      } else if (exponent < 1) {
+        startTangent = center.clone().sub(first).normalize();
+        endTangent = center.clone().sub(last).normalize();
+      } else {
+        startTangent = last.clone().sub(first).normalize();
+        endTangent = startTangent.clone().negate();
+      }
+      cubics.push(...fitCubics(points, startTangent, endTangent, tolerance));
+    }
+
+    const anchors = anchorsFromCubics(cubics);
+    anchors[0].handleIn.copy(anchors[anchors.length - 1].handleIn);
+    anchors.pop();
+    return new Path(anchors, true);
+  }
+
+  /**
+   * Returns an open spiral around `center` that starts at `startRadius` and
+   * `startAngle` (in degrees) and makes `turns` turns, ending at `endRadius`.
+   * Negative turns go the other way. An archimedean spiral grows by the same
+   * distance each turn, and a logarithmic spiral grows by the same ratio each
+   * turn (so its radii must be greater than zero).
+   */
+  static fromSpiral(
+    center: Vec,
+    startRadius: number,
+    endRadius: number,
+    turns: number,
+    type: SpiralType = "archimedean",
+    startAngle = 0
+  ) {
+    if (type === "logarithmic" && (startRadius <= 0 || endRadius <= 0)) {
+      throw `A logarithmic spiral needs radii greater than zero`;
+    }
+    const totalAngle = turns * TWO_PI;
+    const startRadians = startAngle * RADIANS_PER_DEGREE;
+    const growth = type === "logarithmic" ? Math.log(endRadius / startRadius) : 0;
+
+    // Radius and its derivative with respect to angle, at a fraction of the way
+    // along the spiral.
+    const radiusAt = (fraction: number) => {
+      if (type === "logarithmic") return startRadius * Math.exp(growth * fraction);
+      return startRadius + (endRadius - startRadius) * fraction;
+    };
+    const radiusSlopeAt = (fraction: number) => {
+      if (totalAngle === 0) return 0;
+      if (type === "logarithmic") return (radiusAt(fraction) * growth) / totalAngle;
+      return (endRadius - startRadius) / totalAngle;
+    };
+
+    // Segments are an eighth of a turn, with handles from the derivative. The
+    // handle length factor is the one that best approximates a circular arc.
+    const segmentCount = Math.max(1, Math.ceil(Math.abs(turns) * SPIRAL_SEGMENTS_PER_TURN));
+    const segmentAngle = totalAngle / segmentCount;
+    const handleScale = (4 / 3) * Math.tan(segmentAngle / 4);
+    const anchors: Anchor[] = [];
+    for (let i = 0; i <= segmentCount; ++i) {
+      const fraction = i / segmentCount;
+      const angle = startRadians + totalAngle * fraction;
+      const radial = new Vec(Math.cos(angle), Math.sin(angle));
+      const radius = radiusAt(fraction);
+      const derivative = radial
+        .clone()
+        .mulScalar(radiusSlopeAt(fraction))
+        .add(Vec.rotate90(radial).mulScalar(radius));
+      const handle = derivative.mulScalar(handleScale);
+      const position = radial.mulScalar(radius).add(center);
+      anchors.push(
+        new Anchor(
+          position,
+          i === 0 ? new Vec() : handle.clone().negate(),
+          i === segmentCount ? new Vec() : handle
+        )
+      );
+    }
+    return new Path(anchors, false);
+  }
 }
 
+export type SpiralType = "archimedean" | "logarithmic";
+
+export interface SegmentRadiusOfCurvature {
+  /** The time on the path at which the radius is smallest */
+  time: number;
+  radius: number;
+}
+
+export interface LinePrimitive {
+  type: "line";
+  start: Vec;
+  end: Vec;
+}
+
+export interface ArcPrimitive {
+  type: "arc";
+  start: Vec;
+  end: Vec;
+  center: Vec;
+  radius: number;
+  /** Signed angle from `start` to `end` around `center`, in degrees */
+  sweepAngle: number;
+}
+
+export type ArcOrLinePrimitive = LinePrimitive | ArcPrimitive;
+
+export interface ClipOptions {
+  keep?: "inside" | "outside";
+}
+
+export interface OffsetOptions {
+  join?: StrokeJoin;
+  miterLimit?: number;
+  tolerance?: number;
+}
+
+const SUPERELLIPSE_SAMPLES_PER_QUADRANT = 64;
+const SPIRAL_SEGMENTS_PER_TURN = 8;
+
 const normalizeTimeForPath = (time: number, path: Path) => {
   const len = path.anchors.length;
   if (path.closed) {
@@ -875,3 +1675,23 @@ const arcSegment = (angle: number) => {
     new Anchor(new Vec(1, 0).rotate(angle), new Vec(0, -f).rotate(angle), new Vec(0, 0)),
   ]);
 };
+
+const signedAreaMomentsOfPath = (path: Path) => {
+  const moments: AreaMoments = { area: 0, mx: 0, my: 0, mxx: 0, myy: 0, mxy: 0 };
+  if (!path.closed) return moments;
+  for (let segment of pairs(path.anchors, true)) {
+    accumulateAreaMomentsOfCubic(moments, cubicFromSegment(segment));
+  }
+  return moments;
+};
+
+const timesWithinCurvedSegmentsOfPath = (path: Path, timesOfCubic: (cubic: Cubic) => number[]) => {
+  const times: number[] = [];
+  pairs(path.anchors, path.closed).forEach((segment, index) => {
+    if (isSegmentLinear(segment)) return;
+    for (let t of timesOfCubic(cubicFromSegment(segment))) {
+      times.push(index + t);
+    }
+  });
+  return times;
+};
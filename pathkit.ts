@@ -1,10 +1,10 @@
 import { PathKitInit } from "../deps";
 import { Anchor } from "./anchor";
-import { BoundingBox } from "./bounding-box";
 import { Geometry } from "./geometry";
 import { Group } from "./group";
 import { Path } from "./path";
 import { Shape } from "./shape";
+import { FillRule } from "./style";
 import { Vec } from "./vec";
 
 // PathKit is made to work with geometry in pixels, but most of our geometry
@@ -23,6 +23,7 @@ export async function _initPathKit() {
 
 type PkPath = any;
 type PkCommand = number[];
+type PkFillType = any;
 
 //
 // Converting to PkCommands
@@ -220,14 +221,26 @@ export const emptyPkPath = (): PkPath => {
   return PathKit.NewPath();
 };
 
-export const toPkPath = (item: Geometry, fillType = PathKit.FillType.EVENODD): PkPath => {
+/**
+ * Converts `item` to a PkPath. Unless `fillType` is given, the PkPath uses the
+ * fill rule of `item` if it has one, or even-odd otherwise.
+ */
+export const toPkPath = (item: Geometry, fillType?: PkFillType): PkPath => {
   numPkObjects++;
   const pkCommands = toPkCommands(item, scaleFactor);
   const pkPath = PathKit.FromCmds(pkCommands);
+  if (fillType === undefined) {
+    const fillRule = item instanceof Path || item instanceof Shape ? item.fillRule : "evenodd";
+    fillType = pkFillTypeForFillRule(fillRule);
+  }
   pkPath.setFillType(fillType);
   return pkPath;
 };
 
+export const pkFillTypeForFillRule = (fillRule: FillRule): PkFillType => {
+  return fillRule === "nonzero" ? PathKit.FillType.WINDING : PathKit.FillType.EVENODD;
+};
+
 export const fromPkPath = (pkPath: PkPath, andDelete = false): Shape => {
   // Ensure even-odd fill type
   if (pkPath.getFillType() !== PathKit.FillType.EVENODD) {
@@ -251,21 +264,6 @@ export const deletePkPath = (pkPath: PkPath) => {
   pkPath.delete();
 };
 
-export const pkPathFromSVGPathString = (svgPathString: string): PkPath => {
-  numPkObjects++;
-  return PathKit.FromSVGString(svgPathString).transform(
-    scaleFactor,
-    0,
-    0,
-    0,
-    scaleFactor,
-    0,
-    0,
-    0,
-    1
-  );
-};
-
 //
 // Stroke
 //
@@ -285,19 +283,3 @@ export const performStroke = (
   });
   pkPath.simplify();
 };
-
-//
-// Bounding box
-//
-
-// TODO: Replace PathKit implementation with something like this?
-// https://iquilezles.org/www/articles/bezierbbox/bezierbbox.htm
-export const computeTightBoundingBox = (item: Geometry) => {
-  const pkPath = toPkPath(item);
-  const bounds = pkPath.computeTightBounds();
-  deletePkPath(pkPath);
-  return new BoundingBox(
-    new Vec(bounds.fLeft / scaleFactor, bounds.fTop / scaleFactor),
-    new Vec(bounds.fRight / scaleFactor, bounds.fBottom / scaleFactor)
-  );
-};
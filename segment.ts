@@ -1,8 +1,14 @@
 import { Bezier } from "../deps";
 import { Anchor } from "./anchor";
-import { bernsteinBezierFormForClosestPointOnCubic, findRoots } from "./bezier";
+import {
+  bernsteinBezierFormForClosestPointOnCubic,
+  cubicRoots,
+  findRoots,
+  quadraticRoots,
+} from "./bezier";
 import { BoundingBox } from "./bounding-box";
 import { DEFAULT_TOLERANCE } from "./constants";
+import { AreaMoments } from "./geometry";
 import { saturate } from "./math";
 import { Path } from "./path";
 import { pairs } from "./util";
@@ -88,6 +94,19 @@ export const pointOnCubicAtTime = (out: Vec, [p0, p1, p2, p3]: Cubic, time: numb
   );
 };
 
+export const derivativeOfCubicAtTime = (out: Vec, [p0, p1, p2, p3]: Cubic, time: number) => {
+  const oneMinusTime = 1 - time;
+
+  const a = oneMinusTime * oneMinusTime * 3;
+  const b = oneMinusTime * time * 6;
+  const c = time * time * 3;
+
+  return out.set(
+    a * (p1.x - p0.x) + b * (p2.x - p1.x) + c * (p3.x - p2.x),
+    a * (p1.y - p0.y) + b * (p2.y - p1.y) + c * (p3.y - p2.y)
+  );
+};
+
 export const positionAndTimeAtClosestPointOnCubic = (point: Vec, cubic: Cubic) => {
   const w = bernsteinBezierFormForClosestPointOnCubic(point, cubic);
   const roots = findRoots(w, 5);
@@ -143,6 +162,295 @@ export const cubicByTrimmingCubic = (cubic: Cubic, start: number, end: number):
   return cubic;
 };
 
+/**
+ * Returns the smallest bounding box containing `cubic`. The curve is only
+ * evaluated where its derivative is zero in either axis, and only if the
+ * handles extend outside the box of its end points.
+ */
+export const tightBoundingBoxOfCubic = (cubic: Cubic) => {
+  const [p0, p1, p2, p3] = cubic;
+  const box = new BoundingBox(p0.clone(), p0.clone()).expandToIncludePoint(p3);
+  if (box.containsBoundingBox(BoundingBox.fromCubic(cubic))) return box;
+
+  const point = new Vec();
+  const expandToIncludeExtrema = (a: number, b: number, c: number, d: number) => {
+    // Coefficients of the derivative of the cubic in one axis.
+    const roots = quadraticRoots(3 * (-a + 3 * b - 3 * c + d), 6 * (a - 2 * b + c), 3 * (b - a));
+    for (let t of roots) {
+      if (t > 0 && t < 1) box.expandToIncludePoint(pointOnCubicAtTime(point, cubic, t));
+    }
+  };
+  expandToIncludeExtrema(p0.x, p1.x, p2.x, p3.x);
+  expandToIncludeExtrema(p0.y, p1.y, p2.y, p3.y);
+  return box;
+};
+
+const FLATTEN_MAX_DEPTH = 16;
+
+/**
+ * Adaptively subdivides `cubic` until each piece is within `tolerance` of a
+ * straight line, and appends the end point of each piece to `points` along
+ * with its time on the cubic. The start point is not included.
+ */
+export const flattenCubic = (
+  cubic: Cubic,
+  tolerance: number,
+  points: Vec[] = [],
+  times: number[] = [],
+  startTime = 0,
+  duration = 1,
+  depth = 0
+) => {
+  const [p0, p1, p2, p3] = cubic;
+  // The curve lies within the convex hull of its control points, so it is at
+  // most as far from the chord as the furthest handle.
+  const isFlat =
+    p1.distanceToLineSegment(p0, p3) <= tolerance && p2.distanceToLineSegment(p0, p3) <= tolerance;
+  if (isFlat || depth >= FLATTEN_MAX_DEPTH) {
+    points.push(p3.clone());
+    times.push(startTime + duration);
+  } else {
+    const [left, right] = cubicsBySplittingCubicAtTime(cubic, 0.5);
+    const halfDuration = duration * 0.5;
+    flattenCubic(left, tolerance, points, times, startTime, halfDuration, depth + 1);
+    flattenCubic(
+      right,
+      tolerance,
+      points,
+      times,
+      startTime + halfDuration,
+      halfDuration,
+      depth + 1
+    );
+  }
+  return { points, times };
+};
+
+//
+// Curvature
+//
+
+/**
+ * Returns the coefficients [a, b, c] of the derivative of `cubic`, which is
+ * a*t^2 + b*t + c. The second derivative is then 2*a*t + b.
+ */
+const derivativeCoefficientsOfCubic = ([p0, p1, p2, p3]: Cubic) => {
+  const a = p3.clone().sub(p0).add(p1.clone().sub(p2).mulScalar(3)).mulScalar(3);
+  const b = p2.clone().sub(p1).sub(p1).add(p0).mulScalar(6);
+  const c = p1.clone().sub(p0).mulScalar(3);
+  return [a, b, c];
+};
+
+const crossProduct = (a: Vec, b: Vec) => a.x * b.y - a.y * b.x;
+
+/**
+ * Returns the signed curvature of `cubic` at `time`. Curvature is positive
+ * where the curve turns towards its normal (the tangent rotated by 90
+ * degrees), and is the reciprocal of the radius of curvature.
+ *
+ * @remarks
+ * Where the derivative is zero, such as at the end of a cubic with a
+ * zero-length handle, the curvature is usually unbounded and this returns
+ * positive or negative Infinity.
+ */
+export const curvatureOfCubicAtTime = (cubic: Cubic, time: number) => {
+  const [a, b, c] = derivativeCoefficientsOfCubic(cubic);
+  const d1 = a
+    .clone()
+    .mulScalar(time * time)
+    .add(b.clone().mulScalar(time))
+    .add(c);
+  const d2 = a
+    .clone()
+    .mulScalar(2 * time)
+    .add(b);
+  const speed = d1.length();
+  if (speed === 0) {
+    // Near this point the derivative is approximately d2 * (t - time), so the
+    // curve turns according to the third derivative.
+    const turn = crossProduct(d2, a);
+    return turn === 0 ? 0 : Math.sign(turn) * Infinity;
+  }
+  return crossProduct(d1, d2) / (speed * speed * speed);
+};
+
+/**
+ * Returns the times strictly between the ends of `cubic` at which its
+ * curvature changes sign, in increasing order.
+ */
+export const inflectionTimesOfCubic = (cubic: Cubic) => {
+  const [a, b, c] = derivativeCoefficientsOfCubic(cubic);
+  // Expanding cross(d1, d2) leaves a quadratic since cross(a, a) is zero.
+  const roots = quadraticRoots(-crossProduct(a, b), 2 * crossProduct(c, a), crossProduct(c, b));
+  return roots.filter((t) => t > 0 && t < 1).sort((t1, t2) => t1 - t2);
+};
+
+// The derivative of curvature is a degree 6 polynomial, so we find its roots by
+// looking for sign changes between samples and refining them by bisection.
+const CURVATURE_EXTREMA_SAMPLE_COUNT = 64;
+const CURVATURE_EXTREMA_BISECTION_STEPS = 40;
+
+/**
+ * Returns the times strictly between the ends of `cubic` at which its signed
+ * curvature has a local minimum or maximum, in increasing order.
+ */
+export const curvatureExtremaTimesOfCubic = (cubic: Cubic) => {
+  const [a, b, c] = derivativeCoefficientsOfCubic(cubic);
+  const d1 = new Vec();
+  const d2 = new Vec();
+  const d3 = a.clone().mulScalar(2);
+
+  // The numerator of the derivative of curvature with respect to time. The
+  // denominator is a positive power of speed, so doesn't affect the sign.
+  const curvatureSlope = (t: number) => {
+    d1.copy(a)
+      .mulScalar(t * t)
+      .add(b.clone().mulScalar(t))
+      .add(c);
+    d2.copy(a)
+      .mulScalar(2 * t)
+      .add(b);
+    return crossProduct(d1, d3) * d1.dot(d1) - 3 * crossProduct(d1, d2) * d1.dot(d2);
+  };
+
+  const times: number[] = [];
+  let t0 = 0;
+  let v0 = curvatureSlope(t0);
+  for (let i = 1; i <= CURVATURE_EXTREMA_SAMPLE_COUNT; ++i) {
+    const t1 = i / CURVATURE_EXTREMA_SAMPLE_COUNT;
+    const v1 = curvatureSlope(t1);
+    if (v1 === 0 && i < CURVATURE_EXTREMA_SAMPLE_COUNT) {
+      times.push(t1);
+    } else if (v0 * v1 < 0) {
+      let lo = t0;
+      let hi = t1;
+      for (let j = 0; j < CURVATURE_EXTREMA_BISECTION_STEPS; ++j) {
+        const mid = (lo + hi) / 2;
+        if (curvatureSlope(mid) * v0 > 0) lo = mid;
+        else hi = mid;
+      }
+      times.push((lo + hi) / 2);
+    }
+    t0 = t1;
+    v0 = v1;
+  }
+  return times;
+};
+
+// 6-point Gauss-Legendre quadrature on [0, 1]. This integrates polynomials up
+// to degree 11 exactly, which covers every area moment integrand of a cubic.
+const GAUSS_LEGENDRE_TIMES = [
+  0.033765242898423986, 0.16939530676686776, 0.38069040695840156, 0.6193095930415985,
+  0.8306046932331322, 0.966234757101576,
+];
+const GAUSS_LEGENDRE_WEIGHTS = [
+  0.08566224618958517, 0.1803807865240693, 0.2339569672863455, 0.2339569672863455,
+  0.1803807865240693, 0.08566224618958517,
+];
+
+/**
+ * Adds the contribution of `cubic` to the area moments of a closed boundary,
+ * using Green's theorem to turn each area integral into a line integral along
+ * the boundary. Moments are positive for boundaries that wind positively.
+ */
+export const accumulateAreaMomentsOfCubic = (moments: AreaMoments, cubic: Cubic) => {
+  const point = new Vec();
+  const derivative = new Vec();
+  for (let i = 0; i < GAUSS_LEGENDRE_TIMES.length; ++i) {
+    const t = GAUSS_LEGENDRE_TIMES[i];
+    const w = GAUSS_LEGENDRE_WEIGHTS[i];
+    const { x, y } = pointOnCubicAtTime(point, cubic, t);
+    derivativeOfCubicAtTime(derivative, cubic, t);
+    const dx = w * derivative.x;
+    const dy = w * derivative.y;
+    moments.area += x * dy;
+    moments.mx += (x * x * dy) / 2;
+    moments.my -= (y * y * dx) / 2;
+    moments.mxx += (x * x * x * dy) / 3;
+    moments.myy -= (y * y * y * dx) / 3;
+    moments.mxy += (x * x * y * dy) / 2;
+  }
+  return moments;
+};
+
+/**
+ * Returns the length of `cubic` between `startTime` and `endTime`. This is
+ * accurate when the speed of the cubic doesn't vary much over that range, so
+ * long or sharply curved ranges should be split up first.
+ */
+export const lengthOfCubicBetweenTimes = (cubic: Cubic, startTime: number, endTime: number) => {
+  const duration = endTime - startTime;
+  const derivative = new Vec();
+  let length = 0;
+  for (let i = 0; i < GAUSS_LEGENDRE_TIMES.length; ++i) {
+    const t = startTime + duration * GAUSS_LEGENDRE_TIMES[i];
+    length += GAUSS_LEGENDRE_WEIGHTS[i] * derivativeOfCubicAtTime(derivative, cubic, t).length();
+  }
+  return length * duration;
+};
+
+/**
+ * Returns the number of times `cubic` crosses the horizontal ray extending
+ * from `point` in the positive x direction, counting crossings in the
+ * direction of increasing y as +1 and decreasing y as -1.
+ *
+ * @remarks
+ * Points exactly on the ray are treated as being below it, so that adjacent
+ * segments in a path agree on whether a shared anchor crosses the ray.
+ */
+export const windingContributionOfCubic = (point: Vec, cubic: Cubic) => {
+  const [p0, p1, p2, p3] = cubic;
+  if (point.y < Math.min(p0.y, p1.y, p2.y, p3.y)) return 0;
+  if (point.y >= Math.max(p0.y, p1.y, p2.y, p3.y)) return 0;
+  if (point.x >= Math.max(p0.x, p1.x, p2.x, p3.x)) return 0;
+
+  const roots = cubicRoots(
+    -p0.y + 3 * p1.y - 3 * p2.y + p3.y,
+    3 * p0.y - 6 * p1.y + 3 * p2.y,
+    3 * (p1.y - p0.y),
+    p0.y - point.y
+  )
+    .filter((t) => t > 0 && t < 1)
+    .sort((a, b) => a - b);
+
+  // Walk along the cubic between its end points and roots, classifying each
+  // piece as above or below the ray. Tangent roots don't change the
+  // classification so they don't count, even if the solver returns them as
+  // two nearby roots.
+  const position = new Vec();
+  let wasAbove = p0.y > point.y;
+  let winding = 0;
+  const crossAt = (time: number, isAbove: boolean) => {
+    if (isAbove === wasAbove) return;
+    pointOnCubicAtTime(position, cubic, time);
+    if (position.x > point.x) winding += isAbove ? 1 : -1;
+    wasAbove = isAbove;
+  };
+  const times = [0, ...roots, 1];
+  for (let i = 0; i < times.length - 1; ++i) {
+    pointOnCubicAtTime(position, cubic, (times[i] + times[i + 1]) / 2);
+    crossAt(times[i], position.y > point.y);
+  }
+  crossAt(1, p3.y > point.y);
+  return winding;
+};
+
+/**
+ * Like `windingContributionOfCubic()` but for a straight line from `a` to `b`.
+ */
+export const windingContributionOfLine = (point: Vec, a: Vec, b: Vec) => {
+  if (a.y <= point.y) {
+    if (b.y > point.y && crossProductOfOffsets(a, b, point) > 0) return 1;
+  } else if (b.y <= point.y && crossProductOfOffsets(a, b, point) < 0) {
+    return -1;
+  }
+  return 0;
+};
+
+const crossProductOfOffsets = (a: Vec, b: Vec, point: Vec) => {
+  return (b.x - a.x) * (point.y - a.y) - (point.x - a.x) * (b.y - a.y);
+};
+
 //
 // Intersections
 //
@@ -373,7 +681,7 @@ export const cubicSelfIntersections = ([a1, a2, a3, a4]: Cubic): PrimitiveInters
   return [];
 };
 
-const primitivePrimitiveIntersections = (p1: Line | Cubic, p2: Line | Cubic) => {
+export const primitivePrimitiveIntersections = (p1: Line | Cubic, p2: Line | Cubic) => {
   if (p1.length === 2) {
     // p1 Line
     if (p2.length === 2) return lineLineIntersections(p1, p2);
@@ -1,23 +1,34 @@
 import { opentype } from "../deps";
+import { splitShapeByPaths } from "./arrangement";
+import {
+  activeBooleanBackend,
+  nativeBooleanDifference,
+  nativeBooleanIntersect,
+  nativeBooleanUnion,
+  nativeBooleanXor,
+  nativeStroke,
+} from "./boolean";
 import { BoundingBox } from "./bounding-box";
+import { concentricContours, spiralsFromContours } from "./concentric";
 import { dummyCanvasCtx, paintToCanvas, styleContainsPoint } from "./canvas";
-import { ClosestPointResult, ExportOptions, Geometry } from "./geometry";
+import { AreaMoments, ClosestPointResult, ExportOptions, Geometry } from "./geometry";
 import { Group } from "./group";
+import { hatchPathsOfShape } from "./hatch";
 import { AffineMatrix } from "./matrix";
 import { Path } from "./path";
 import {
-  computeTightBoundingBox,
   deletePkPath,
   emptyPkPath,
   fromPkCommands,
   fromPkPath,
   PathKit,
   performStroke,
-  pkPathFromSVGPathString,
+  pkFillTypeForFillRule,
   toPkPath,
 } from "./pathkit";
-import { Fill, Stroke } from "./style";
+import { Fill, FillRule, Stroke, StrokeJoin } from "./style";
 import { pathOrShapeToSVGString } from "./svg";
+import { pathsFromSVGPathString } from "./svg-path";
 import { Vec } from "./vec";
 
 export class Shape extends Geometry {
@@ -27,19 +38,22 @@ export class Shape extends Geometry {
 
   stroke?: Stroke;
   fill?: Fill;
+  fillRule: FillRule;
 
-  constructor(paths: Path[] = [], stroke?: Stroke, fill?: Fill) {
+  constructor(paths: Path[] = [], stroke?: Stroke, fill?: Fill, fillRule: FillRule = "evenodd") {
     super();
     this.paths = paths;
     this.stroke = stroke;
     this.fill = fill;
+    this.fillRule = fillRule;
   }
 
   clone() {
     return new Shape(
       this.paths.map((path) => path.clone()),
       this.stroke?.clone(),
-      this.fill?.clone()
+      this.fill?.clone(),
+      this.fillRule
     );
   }
 
@@ -48,7 +62,8 @@ export class Shape extends Geometry {
       Array.isArray(this.paths) &&
       this.paths.every(Path.isValid) &&
       (this.stroke === undefined || Stroke.isValid(this.stroke)) &&
-      (this.fill === undefined || Fill.isValid(this.fill))
+      (this.fill === undefined || Fill.isValid(this.fill)) &&
+      Fill.isValidFillRule(this.fillRule)
     );
   }
 
@@ -100,6 +115,11 @@ export class Shape extends Geometry {
     return this;
   }
 
+  assignFillRule(fillRule: FillRule) {
+    this.fillRule = fillRule;
+    return this;
+  }
+
   assignStyle(fill: Fill, stroke: Stroke) {
     this.stroke = stroke?.clone();
     this.fill = fill?.clone();
@@ -112,6 +132,7 @@ export class Shape extends Geometry {
     } else if (item instanceof Path || item instanceof Shape) {
       this.stroke = item.stroke?.clone();
       this.fill = item.fill?.clone();
+      this.fillRule = item.fillRule;
     }
     return this;
   }
@@ -150,7 +171,14 @@ export class Shape extends Geometry {
   }
 
   tightBoundingBox(): BoundingBox {
-    return computeTightBoundingBox(this);
+    let box: BoundingBox | undefined;
+    for (let path of this.paths) {
+      if (path.anchors.length === 0) continue;
+      const pathBox = path.tightBoundingBox();
+      if (box) box.expandToIncludeBoundingBox(pathBox);
+      else box = pathBox;
+    }
+    return box ?? new BoundingBox();
   }
 
   isContainedByBoundingBox(box: BoundingBox) {
@@ -193,26 +221,141 @@ export class Shape extends Geometry {
   containsPoint(point: Vec) {
     dummyCanvasCtx.beginPath();
     this.toCanvasPath(dummyCanvasCtx);
-    return dummyCanvasCtx.isPointInPath(point.x, point.y, "evenodd");
+    return dummyCanvasCtx.isPointInPath(point.x, point.y, this.fillRule);
   }
 
   styleContainsPoint(point: Vec) {
     return styleContainsPoint(this, point);
   }
 
+  /**
+   * Returns, for each path in this shape, the number of other paths that
+   * enclose it. Under the even-odd fill rule, paths at an even depth are outer
+   * boundaries and paths at an odd depth are holes.
+   *
+   * @remarks
+   * Paths are assumed not to cross each other. Each path is tested at a single
+   * point on its first segment.
+   */
+  nestingDepths() {
+    return enclosingPathIndices(this.paths).map((indices) => indices.length);
+  }
+
+  /**
+   * Returns the area moments of the region filled by this shape under its
+   * fill rule, so holes are subtracted from the paths enclosing them.
+   *
+   * @remarks
+   * Like `nestingDepths()`, this assumes that paths don't cross each other.
+   */
+  areaMoments(): AreaMoments {
+    const { paths, fillRule } = this;
+    // Shapes are filled as if their paths were closed.
+    const closedPaths = paths.map((path) => new Path(path.anchors, true));
+    const moments: AreaMoments = { area: 0, mx: 0, my: 0, mxx: 0, myy: 0, mxy: 0 };
+    windingsBesidePaths(paths).forEach(({ outside, inside }, i) => {
+      // Each path adds or removes the region between the winding number just
+      // outside it and the winding number just inside it.
+      const sign =
+        Number(isFilledWinding(inside, fillRule)) - Number(isFilledWinding(outside, fillRule));
+      if (sign === 0) return;
+      const pathMoments = closedPaths[i].areaMoments();
+      moments.area += sign * pathMoments.area;
+      moments.mx += sign * pathMoments.mx;
+      moments.my += sign * pathMoments.my;
+      moments.mxx += sign * pathMoments.mxx;
+      moments.myy += sign * pathMoments.myy;
+      moments.mxy += sign * pathMoments.mxy;
+    });
+    return moments;
+  }
+
+  /**
+   * Returns, for each path in this shape, true if it's a hole: the area just
+   * outside it is filled under this shape's fill rule and the area just inside
+   * it isn't. This depends on the direction of each path under the "nonzero"
+   * fill rule, where a path inside another path that runs the same way isn't
+   * a hole.
+   *
+   * @remarks
+   * Like `nestingDepths()`, this assumes that paths don't cross each other.
+   */
+  holeFlags() {
+    const { fillRule } = this;
+    return windingsBesidePaths(this.paths).map(({ outside, inside }) => {
+      return isFilledWinding(outside, fillRule) && !isFilledWinding(inside, fillRule);
+    });
+  }
+
   reverse() {
     this.paths.forEach((path) => path.reverse());
     this.paths.reverse();
     return this;
   }
 
+  /**
+   * Divides the area of this shape along `cutters`, which may be open or
+   * closed, and returns a Group of the resulting pieces. Parts of cutters that
+   * lie outside the shape or end without reaching another edge don't cut.
+   */
+  splitByPaths(cutters: Path[]) {
+    const pieces = splitShapeByPaths(this, cutters);
+    return new Group(pieces.map((piece) => piece.copyStyle(this)));
+  }
+
+  /**
+   * Returns open paths that fill this shape with parallel lines, `spacing`
+   * apart at `angle` degrees, for pen plotters and line engraving. Each of
+   * `crossAngles` adds another set of lines at that many degrees from
+   * `angle`, such as `[90]` for a cross-hatch.
+   *
+   * @remarks
+   * Lines are clipped exactly to the shape, respecting its holes and fill
+   * rule, after insetting it by `inset`. With `connect: "zigzag"`, lines on
+   * neighboring rows are joined end to end wherever the connection stays
+   * inside the shape, so the pen is lifted less often.
+   */
+  hatch(options: HatchOptions = {}) {
+    const { spacing = 1, angle = 0, crossAngles = [], connect = "none", inset = 0 } = options;
+    if (!(spacing > 0)) throw `Hatch spacing must be greater than zero, got ${spacing}`;
+
+    let region: Shape = this;
+    if (inset > 0) {
+      const border = Shape.stroke(this, { width: inset * 2, join: "round" });
+      region = Shape.booleanDifference([this, border]);
+    }
+    const angles = [angle, ...crossAngles.map((crossAngle) => angle + crossAngle)];
+    const paths = angles.flatMap((a) => hatchPathsOfShape(region, spacing, a, connect));
+    return new Group(paths);
+  }
+
+  /**
+   * Returns the boundary of this shape inset again and again by `step` until
+   * nothing is left, for pocketing and outline engraving. The result has one
+   * Group of closed paths for each depth, starting with the paths inset by
+   * `step`.
+   *
+   * @remarks
+   * With `spiral: true`, the contours are instead joined into open paths that
+   * run around one contour, step inward, and run around the next, so that a
+   * tool can clear each region without lifting. Corners that the boundary
+   * moves away from are joined with `join`, which defaults to "miter".
+   */
+  concentricOffsets(step: number, options: ConcentricOffsetOptions = {}) {
+    const { maxCount = Infinity, join = "miter", miterLimit = 4, spiral = false } = options;
+    if (!(step > 0)) throw `Concentric offset step must be greater than zero, got ${step}`;
+
+    const levels = concentricContours(this, step, maxCount, join, miterLimit);
+    if (spiral) return new Group(spiralsFromContours(levels));
+    return new Group(levels.map((paths) => new Group(paths)));
+  }
+
   static isValid = (a: unknown): a is Shape => {
     return a instanceof Shape && a.isValid();
   };
 
   static fromSVGPathString = (svgPathString: string) => {
-    const pkPath = pkPathFromSVGPathString(svgPathString);
-    return fromPkPath(pkPath, true);
+    return new Shape(pathsFromSVGPathString(svgPathString));
   };
 
   static fromOpenTypePath = (openTypePath: opentype.Path) => {
@@ -243,9 +386,19 @@ export class Shape extends Geometry {
     return fromPkCommands(pkCommands);
   };
 
-  static booleanUnion = (items: Geometry[], fillRule?: "evenodd" | "winding") => {
+  /**
+   * Returns the union of `items`. Each item is interpreted with its own fill
+   * rule unless `fillRule` is given. "winding" is the same as "nonzero".
+   */
+  static booleanUnion = (items: Geometry[], fillRule?: FillRule | "winding") => {
+    if (activeBooleanBackend() === "native") {
+      return nativeBooleanUnion(items, fillRule === "winding" ? "nonzero" : fillRule);
+    }
     const unionItems = items.flatMap((item) => item.allShapesAndOrphanedPaths());
-    const fillType = fillRule === "winding" ? PathKit.FillType.WINDING : PathKit.FillType.EVENODD;
+    const fillType =
+      fillRule === undefined
+        ? undefined
+        : pkFillTypeForFillRule(fillRule === "winding" ? "nonzero" : fillRule);
     let resultPkPath = emptyPkPath();
     for (let item of unionItems) {
       const pkPath = toPkPath(item, fillType);
@@ -256,6 +409,7 @@ export class Shape extends Geometry {
   };
 
   static booleanIntersect(items: Geometry[]) {
+    if (activeBooleanBackend() === "native") return nativeBooleanIntersect(items);
     const pkPaths = preUnion(items);
     let resultPkPath: any = null; // TODO: Types for PathKit
     for (let pkPath of pkPaths) {
@@ -271,6 +425,7 @@ export class Shape extends Geometry {
   }
 
   static booleanDifference(items: Geometry[]) {
+    if (activeBooleanBackend() === "native") return nativeBooleanDifference(items);
     const pkPaths = preUnion(items);
     let resultPkPath: any = null; // TODO: Types for PathKit
     for (let pkPath of pkPaths) {
@@ -285,6 +440,70 @@ export class Shape extends Geometry {
     return fromPkPath(resultPkPath, true);
   }
 
+  static booleanXor(items: Geometry[]) {
+    if (activeBooleanBackend() === "native") return nativeBooleanXor(items);
+    const pkPaths = preUnion(items);
+    let resultPkPath: any = null; // TODO: Types for PathKit
+    for (let pkPath of pkPaths) {
+      if (resultPkPath === null) {
+        resultPkPath = pkPath;
+      } else {
+        resultPkPath.op(pkPath, PathKit.PathOp.XOR);
+        deletePkPath(pkPath);
+      }
+    }
+    if (resultPkPath === null) return new Shape();
+    return fromPkPath(resultPkPath, true);
+  }
+
+  /**
+   * Splits the area covered by `items` into regions that don't overlap, one
+   * for each connected area covered by the same set of items. Each region
+   * lists the indices of the items covering it in ascending order.
+   */
+  static divideRegions(items: Geometry[]) {
+    let regions: DividedRegion[] = [];
+    items.forEach((item, index) => {
+      const nextRegions: DividedRegion[] = [];
+      for (let region of regions) {
+        const inside = Shape.booleanIntersect([region.shape, item]);
+        const outside = Shape.booleanDifference([region.shape, item]);
+        if (inside.paths.length > 0) {
+          nextRegions.push({ shape: inside, items: [...region.items, index] });
+        }
+        if (outside.paths.length > 0) {
+          nextRegions.push({ shape: outside, items: region.items });
+        }
+      }
+      const uncovered = Shape.booleanDifference([item, ...regions.map(({ shape }) => shape)]);
+      if (uncovered.paths.length > 0) {
+        nextRegions.push({ shape: uncovered, items: [index] });
+      }
+      regions = nextRegions;
+    });
+    return regions.flatMap(({ shape, items }) => {
+      return connectedShapes(shape).map((shape) => ({ shape, items }));
+    });
+  }
+
+  /**
+   * Splits the area covered by `items` into pieces that don't overlap, like
+   * the Divide operation in Illustrator. Each piece takes the style of the
+   * top-most (last) item covering it.
+   *
+   * @remarks
+   * Each piece is a DividedShape, which records the indices of the items
+   * covering it.
+   */
+  static divide(items: Geometry[]) {
+    const shapes = Shape.divideRegions(items).map(({ shape, items: indices }) => {
+      const { paths, stroke, fill, fillRule } = shape;
+      const divided = new DividedShape(paths, stroke, fill, fillRule, indices);
+      return divided.copyStyle(items[indices[indices.length - 1]]);
+    });
+    return new Group(shapes);
+  }
+
   static stroke(item: Geometry, opts: StrokeOptions = {}) {
     let { width, miterLimit, join, cap } = opts;
     if (width === undefined) width = 1;
@@ -292,6 +511,10 @@ export class Shape extends Geometry {
     if (join === undefined) join = "miter";
     if (miterLimit === undefined) miterLimit = 4;
 
+    if (activeBooleanBackend() === "native") {
+      return nativeStroke(item, width, cap, join, miterLimit);
+    }
+
     const pkPath = toPkPath(item);
     performStroke(pkPath, width, cap, join, miterLimit);
 
@@ -299,6 +522,59 @@ export class Shape extends Geometry {
   }
 }
 
+/**
+ * A piece of the area covered by several items, as returned by
+ * `Shape.divide()`, which records the items that cover it.
+ */
+export class DividedShape extends Shape {
+  static displayName = "DividedShape";
+
+  /** Indices of the items covering this shape, in ascending order */
+  items: number[];
+
+  constructor(
+    paths: Path[] = [],
+    stroke?: Stroke,
+    fill?: Fill,
+    fillRule: FillRule = "evenodd",
+    items: number[] = []
+  ) {
+    super(paths, stroke, fill, fillRule);
+    this.items = items;
+  }
+
+  clone() {
+    return new DividedShape(
+      this.paths.map((path) => path.clone()),
+      this.stroke?.clone(),
+      this.fill?.clone(),
+      this.fillRule,
+      [...this.items]
+    );
+  }
+
+  isValid() {
+    return super.isValid() && Array.isArray(this.items) && this.items.every(Number.isInteger);
+  }
+}
+
+export interface ConcentricOffsetOptions {
+  maxCount?: number;
+  join?: StrokeJoin;
+  miterLimit?: number;
+  spiral?: boolean;
+}
+
+export type HatchConnect = "none" | "zigzag";
+
+export interface HatchOptions {
+  spacing?: number;
+  angle?: number;
+  crossAngles?: number[];
+  connect?: HatchConnect;
+  inset?: number;
+}
+
 export interface StrokeOptions {
   width?: number;
   cap?: "butt" | "round" | "square";
@@ -306,6 +582,73 @@ export interface StrokeOptions {
   miterLimit?: number;
 }
 
+/**
+ * Returns, for each of `paths`, the indices of the other paths that enclose it.
+ */
+const enclosingPathIndices = (paths: Path[]) => {
+  return paths.map((path) => {
+    const indices: number[] = [];
+    if (path.anchors.length === 0) return indices;
+    const point = path.positionAtTime(0.5);
+    paths.forEach((other, j) => {
+      if (other !== path && other.windingNumberAtPoint(point) !== 0) indices.push(j);
+    });
+    return indices;
+  });
+};
+
+/**
+ * Returns, for each of `paths`, the winding numbers just outside and just
+ * inside it, assuming that paths don't cross each other.
+ */
+const windingsBesidePaths = (paths: Path[]) => {
+  // Shapes are filled as if their paths were closed.
+  const orientations = paths.map((path) => {
+    return new Path(path.anchors, true).signedArea() < 0 ? -1 : 1;
+  });
+  return enclosingPathIndices(paths).map((indices, i) => {
+    let outside = 0;
+    for (let j of indices) outside += orientations[j];
+    return { outside, inside: outside + orientations[i] };
+  });
+};
+
+const isFilledWinding = (winding: number, fillRule: FillRule) => {
+  return fillRule === "nonzero" ? winding !== 0 : winding % 2 !== 0;
+};
+
+export interface DividedRegion {
+  shape: Shape;
+  /** Indices of the items covering this region, in ascending order */
+  items: number[];
+}
+
+/**
+ * Splits `shape` into one shape for each outer boundary, together with the
+ * holes directly inside it.
+ */
+const connectedShapes = (shape: Shape) => {
+  const { paths } = shape;
+  const enclosing = enclosingPathIndices(paths);
+  const isOuter = enclosing.map((indices) => indices.length % 2 === 0);
+  const shapes = new Map<number, Shape>();
+  paths.forEach((path, i) => {
+    if (isOuter[i]) shapes.set(i, new Shape([path]));
+  });
+  paths.forEach((path, i) => {
+    if (isOuter[i]) return;
+    // A hole belongs to the innermost outer boundary around it.
+    let parent = -1;
+    for (let j of enclosing[i]) {
+      if (isOuter[j] && (parent === -1 || enclosing[j].length > enclosing[parent].length)) {
+        parent = j;
+      }
+    }
+    if (parent !== -1) shapes.get(parent)!.paths.push(path);
+  });
+  return Array.from(shapes.values());
+};
+
 const preUnion = (items: Geometry[]) => {
   return items.map((item) => {
     if (item instanceof Group) {
@@ -3,6 +3,7 @@ import { Color } from "./color";
 export type StrokeAlignment = "centered" | "inner" | "outer";
 export type StrokeCap = "butt" | "round" | "square";
 export type StrokeJoin = "miter" | "round" | "bevel";
+export type FillRule = "evenodd" | "nonzero";
 
 export class Stroke {
   static displayName = "Stroke";
@@ -82,6 +83,10 @@ export class Fill {
     return new Fill(this.color.clone());
   }
 
+  static isValidFillRule(fillRule: unknown): fillRule is FillRule {
+    return fillRule === "evenodd" || fillRule === "nonzero";
+  }
+
   static isValid(fill: unknown): fill is Fill {
     return fill instanceof Fill && Color.isValid(fill.color);
   }
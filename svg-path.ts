@@ -0,0 +1,356 @@
+import { Anchor } from "./anchor";
+import { ExportOptions } from "./geometry";
+import { Path } from "./path";
+import { Vec } from "./vec";
+
+//
+// Parsing
+//
+
+/**
+ * Parses SVG path data, as found in the `d` attribute of a `<path>` element,
+ * into one Path per subpath. All commands in the SVG grammar are supported.
+ * Quadratic curves are converted to equivalent cubics and elliptical arcs are
+ * approximated with one cubic per quarter turn.
+ *
+ * @remarks
+ * Throws a descriptive string with the character position if the path data is
+ * malformed. A subpath that returns to its start point before being closed
+ * with Z doesn't get an extra anchor for the repeated point.
+ */
+export const pathsFromSVGPathString = (svgPathString: string) => {
+  const parser = new SVGPathDataParser(svgPathString);
+  return parser.parse();
+};
+
+const COMMAND_LETTERS = "MmZzLlHhVvCcSsQqTtAa";
+
+// Number of arguments consumed each time a command is applied.
+const ARGUMENT_COUNTS: { [command: string]: number } = {
+  M: 2,
+  Z: 0,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+};
+
+class SVGPathDataParser {
+  source: string;
+  index = 0;
+
+  paths: Path[] = [];
+  currentPath?: Path;
+  currentPoint = new Vec();
+  subpathStart = new Vec();
+
+  // The control point to reflect for S and T commands. This is only set if the
+  // previous command was of the matching kind.
+  prevCubicControl?: Vec;
+  prevQuadraticControl?: Vec;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  parse() {
+    this.skipSeparators();
+    if (this.isAtEnd()) return this.paths;
+
+    const first = this.source[this.index];
+    if (first !== "M" && first !== "m") {
+      throw this.error(`Expected a moveto command (M or m) but found "${first}"`);
+    }
+
+    let command = "";
+    while (!this.isAtEnd()) {
+      const char = this.source[this.index];
+      if (COMMAND_LETTERS.includes(char)) {
+        command = char;
+        ++this.index;
+        this.applyCommand(command);
+      } else if (command === "Z" || command === "z" || !NUMBER_START_REGEX.test(char)) {
+        throw this.error(`Expected a command but found "${char}"`);
+      } else {
+        // Implicit repetition of the previous command. Extra coordinate pairs
+        // after a moveto are treated as linetos.
+        if (command === "M") command = "L";
+        else if (command === "m") command = "l";
+        this.applyCommand(command);
+      }
+      this.skipSeparators();
+    }
+    return this.paths;
+  }
+
+  applyCommand(command: string) {
+    const upper = command.toUpperCase();
+    const isRelative = command !== upper;
+    const args: number[] = [];
+    const argumentCount = ARGUMENT_COUNTS[upper];
+    for (let i = 0; i < argumentCount; ++i) {
+      this.skipSeparators();
+      const isFlag = upper === "A" && (i === 3 || i === 4);
+      args.push(isFlag ? this.readFlag() : this.readNumber());
+    }
+
+    const { currentPoint } = this;
+    const point = (x: number, y: number) => {
+      return isRelative ? new Vec(currentPoint.x + x, currentPoint.y + y) : new Vec(x, y);
+    };
+
+    let cubicControl: Vec | undefined;
+    let quadraticControl: Vec | undefined;
+
+    if (upper === "M") {
+      const position = point(args[0], args[1]);
+      this.currentPath = new Path([new Anchor(position.clone())]);
+      this.paths.push(this.currentPath);
+      this.subpathStart = position.clone();
+      this.currentPoint = position;
+    } else if (upper === "Z") {
+      if (this.currentPath) closeSubpath(this.currentPath);
+      this.currentPath = undefined;
+      this.currentPoint = this.subpathStart.clone();
+    } else if (upper === "L") {
+      this.lineTo(point(args[0], args[1]));
+    } else if (upper === "H") {
+      this.lineTo(new Vec(isRelative ? currentPoint.x + args[0] : args[0], currentPoint.y));
+    } else if (upper === "V") {
+      this.lineTo(new Vec(currentPoint.x, isRelative ? currentPoint.y + args[0] : args[0]));
+    } else if (upper === "C") {
+      cubicControl = point(args[2], args[3]);
+      this.cubicTo(point(args[0], args[1]), cubicControl, point(args[4], args[5]));
+    } else if (upper === "S") {
+      const control1 = reflectedControlPoint(this.prevCubicControl, currentPoint);
+      cubicControl = point(args[0], args[1]);
+      this.cubicTo(control1, cubicControl, point(args[2], args[3]));
+    } else if (upper === "Q") {
+      quadraticControl = point(args[0], args[1]);
+      this.quadraticTo(quadraticControl, point(args[2], args[3]));
+    } else if (upper === "T") {
+      quadraticControl = reflectedControlPoint(this.prevQuadraticControl, currentPoint);
+      this.quadraticTo(quadraticControl, point(args[0], args[1]));
+    } else if (upper === "A") {
+      const [rx, ry, rotation, largeArc, sweep] = args;
+      const end = point(args[5], args[6]);
+      const arc = Path.fromSVGArc(currentPoint, end, rx, ry, rotation, !!largeArc, !!sweep);
+      // An arc that ends where it starts is left out entirely.
+      if (arc.anchors.length > 1) this.appendAnchors(arc.anchors);
+    }
+
+    this.prevCubicControl = cubicControl;
+    this.prevQuadraticControl = quadraticControl;
+  }
+
+  /**
+   * Returns the current path, starting a new one at the current point if the
+   * previous subpath was closed.
+   */
+  pathForDrawing() {
+    if (!this.currentPath) {
+      this.currentPath = new Path([new Anchor(this.currentPoint.clone())]);
+      this.paths.push(this.currentPath);
+    }
+    return this.currentPath;
+  }
+
+  lineTo(position: Vec) {
+    this.pathForDrawing().anchors.push(new Anchor(position.clone()));
+    this.currentPoint = position;
+  }
+
+  cubicTo(control1: Vec, control2: Vec, position: Vec) {
+    const { anchors } = this.pathForDrawing();
+    const lastAnchor = anchors[anchors.length - 1];
+    lastAnchor.handleOut = control1.clone().sub(lastAnchor.position);
+    anchors.push(new Anchor(position.clone(), control2.clone().sub(position)));
+    this.currentPoint = position;
+  }
+
+  /**
+   * Appends `anchors` to the current path, where the first anchor is at the
+   * current point.
+   */
+  appendAnchors(anchors: Anchor[]) {
+    const pathAnchors = this.pathForDrawing().anchors;
+    pathAnchors[pathAnchors.length - 1].handleOut = anchors[0].handleOut.clone();
+    pathAnchors.push(...anchors.slice(1));
+    this.currentPoint = anchors[anchors.length - 1].position.clone();
+  }
+
+  quadraticTo(control: Vec, position: Vec) {
+    // A quadratic is a cubic with both control points two thirds of the way
+    // from its ends to the quadratic control point.
+    const { currentPoint } = this;
+    const control1 = currentPoint.clone().mix(control, 2 / 3);
+    const control2 = position.clone().mix(control, 2 / 3);
+    this.cubicTo(control1, control2, position);
+  }
+
+  readNumber() {
+    const { source } = this;
+    NUMBER_REGEX.lastIndex = this.index;
+    const match = NUMBER_REGEX.exec(source);
+    if (!match) {
+      const found = this.isAtEnd() ? "end of data" : `"${source[this.index]}"`;
+      throw this.error(`Expected a number but found ${found}`);
+    }
+    this.index += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  readFlag() {
+    const char = this.source[this.index];
+    if (char !== "0" && char !== "1") {
+      const found = this.isAtEnd() ? "end of data" : `"${char}"`;
+      throw this.error(`Expected an arc flag (0 or 1) but found ${found}`);
+    }
+    ++this.index;
+    return char === "1" ? 1 : 0;
+  }
+
+  skipSeparators() {
+    const { source } = this;
+    while (this.index < source.length && SEPARATOR_REGEX.test(source[this.index])) {
+      ++this.index;
+    }
+  }
+
+  isAtEnd() {
+    return this.index >= this.source.length;
+  }
+
+  error(message: string) {
+    return `Invalid SVG path data at position ${this.index}: ${message}`;
+  }
+}
+
+const NUMBER_REGEX = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const NUMBER_START_REGEX = /[\d+\-.]/;
+const SEPARATOR_REGEX = /[\s,]/;
+
+const reflectedControlPoint = (control: Vec | undefined, point: Vec) => {
+  if (!control) return point.clone();
+  return point.clone().mulScalar(2).sub(control);
+};
+
+/**
+ * Marks `path` as closed. If the path already returns to its first anchor, the
+ * last anchor is merged into the first rather than leaving a zero-length
+ * closing segment.
+ */
+const closeSubpath = (path: Path) => {
+  const { anchors } = path;
+  const first = anchors[0];
+  const last = anchors[anchors.length - 1];
+  if (anchors.length > 1 && last.position.equals(first.position)) {
+    first.handleIn = last.handleIn;
+    anchors.pop();
+  }
+  path.closed = true;
+};
+
+//
+// Serializing
+//
+
+/**
+ * Returns compact SVG path data for `path` using relative commands, with H
+ * and V for axis aligned lines. Each path starts with an absolute moveto so
+ * that paths can be concatenated.
+ *
+ * @remarks
+ * Offsets are measured from the previous point after rounding to
+ * `options.maxPrecision`, so rounding errors don't accumulate along the path.
+ */
+export const relativeSVGPathStringForPath = (path: Path, options?: ExportOptions) => {
+  const { anchors, closed } = path;
+  if (anchors.length < 2) return " ";
+
+  const round = (x: number) => {
+    if (options?.maxPrecision === undefined) return x;
+    return parseFloat(x.toFixed(options.maxPrecision));
+  };
+
+  let result = "";
+  let prevCommand = "";
+  let prevNumber = "";
+  const write = (command: string, values: number[]) => {
+    // Repeated commands can be left out.
+    if (command !== prevCommand) {
+      result += command;
+      prevCommand = command;
+      prevNumber = "";
+    }
+    for (let value of values) {
+      const str = numberToSVGString(value);
+      if (prevNumber !== "" && needsSeparatorBetweenNumbers(prevNumber, str)) result += " ";
+      result += str;
+      prevNumber = str;
+    }
+  };
+
+  const current = new Vec(round(anchors[0].position.x), round(anchors[0].position.y));
+  write("M", [current.x, current.y]);
+
+  const segmentCount = closed ? anchors.length : anchors.length - 1;
+  for (let i = 0; i < segmentCount; ++i) {
+    const a1 = anchors[i];
+    const a2 = anchors[(i + 1) % anchors.length];
+    const x = round(a2.position.x);
+    const y = round(a2.position.y);
+    const isLinear = a1.handleOut.isZero() && a2.handleIn.isZero();
+    if (isLinear) {
+      // The closing line is drawn by Z.
+      if (closed && i === segmentCount - 1) break;
+      if (y === current.y) {
+        write("h", [x - current.x]);
+      } else if (x === current.x) {
+        write("v", [y - current.y]);
+      } else {
+        write("l", [x - current.x, y - current.y]);
+      }
+    } else {
+      const x1 = round(a1.position.x + a1.handleOut.x);
+      const y1 = round(a1.position.y + a1.handleOut.y);
+      const x2 = round(a2.position.x + a2.handleIn.x);
+      const y2 = round(a2.position.y + a2.handleIn.y);
+      write("c", [
+        x1 - current.x,
+        y1 - current.y,
+        x2 - current.x,
+        y2 - current.y,
+        x - current.x,
+        y - current.y,
+      ]);
+    }
+    current.set(x, y);
+  }
+  if (closed) write("z", []);
+  return result;
+};
+
+const numberToSVGString = (value: number) => {
+  // Adding zero turns -0 into 0, and toPrecision() removes float noise such as
+  // 0.30000000000000004 left over from taking differences.
+  const str = String(parseFloat(value.toPrecision(15)) + 0);
+  if (str.startsWith("0.")) return str.slice(1);
+  if (str.startsWith("-0.")) return "-" + str.slice(2);
+  return str;
+};
+
+/**
+ * Returns true if two numbers written next to each other would be read as one
+ * number. A minus sign always starts a new number, as does a decimal point if
+ * the previous number already has one.
+ */
+const needsSeparatorBetweenNumbers = (prev: string, next: string) => {
+  if (next[0] === "-") return false;
+  if (next[0] === ".") return !prev.includes(".") || /[eE]/.test(prev);
+  return true;
+};
@@ -1,4 +1,5 @@
 import { Anchor } from "./anchor";
+import { BoundingBox } from "./bounding-box";
 import { Color } from "./color";
 import { ExportOptions, Geometry } from "./geometry";
 import { Group } from "./group";
@@ -6,7 +7,7 @@ import { clamp } from "./math";
 import { AffineMatrix } from "./matrix";
 import { Path } from "./path";
 import { Shape } from "./shape";
-import { Fill, Stroke } from "./style";
+import { Fill, FillRule, Stroke } from "./style";
 import { isValidUnit, scaleFactorForUnitConversion, Unit } from "./units";
 import { Vec } from "./vec";
 
@@ -35,29 +36,6 @@ const tagNamesWithDefaultPaint: { [tagName: string]: boolean } = {
   text: true,
 };
 
-/**
- * Takes two anchors and using their positions mutates anchor1's handleOut and
- * anchor2's handleIn so that there's a circular arc going from anchor1 to
- * anchor2. If horiziontal is true, the arc leaves anchor1 going in a horizontal
- * direction. It's vertical otherwise.
- *
- * This might be a useful geometry routine to expose.
- */
-const makeCircularArc = (anchor1: Anchor, anchor2: Anchor, horizontal: boolean) => {
-  const c = 0.551915024494;
-  const x1 = anchor1.position.x;
-  const y1 = anchor1.position.y;
-  const x2 = anchor2.position.x;
-  const y2 = anchor2.position.y;
-  if (horizontal) {
-    anchor1.handleOut = new Vec((x2 - x1) * c, 0);
-    anchor2.handleIn = new Vec(0, (y1 - y2) * c);
-  } else {
-    anchor1.handleOut = new Vec(0, (y2 - y1) * c);
-    anchor2.handleIn = new Vec((x1 - x2) * c, 0);
-  }
-};
-
 const getStringAttribute = <T>(svgNode: SVGElement, name: string, defaultValue: T): string | T => {
   if (svgNode.hasAttribute(name)) {
     return svgNode.getAttribute(name)!;
@@ -76,6 +54,20 @@ const getNumberAttribute = <T>(svgNode: SVGElement, name: string, defaultValue:
   }
   return defaultValue;
 };
+/**
+ * Returns the fill rule for `svgNode`. Unlike our other attributes, fill-rule
+ * is commonly set on a <g> and inherited, so we look it up through ancestors.
+ */
+const getInheritedFillRule = (svgNode: SVGElement): FillRule => {
+  let node: Element | null = svgNode;
+  while (node instanceof SVGElement) {
+    const fillRule = getStringAttribute(node, "fill-rule", undefined);
+    if (Fill.isValidFillRule(fillRule)) return fillRule;
+    node = node.parentElement;
+  }
+  // The SVG default.
+  return "nonzero";
+};
 const getNumberAndUnitFromString = (s: string) => {
   const numberString = s.match(/[-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?/)?.[0];
   const number = numberString ? parseFloat(numberString) : undefined;
@@ -154,17 +146,7 @@ export const geometryFromSVGNode = (
     const cy = getNumberAttribute(svgNode, "cy", 0);
     const r = getNumberAttribute(svgNode, "r", 0);
     if (r > 0) {
-      const anchors = [
-        new Anchor(new Vec(cx + r, cy)),
-        new Anchor(new Vec(cx, cy + r)),
-        new Anchor(new Vec(cx - r, cy)),
-        new Anchor(new Vec(cx, cy - r)),
-      ];
-      makeCircularArc(anchors[0], anchors[1], false);
-      makeCircularArc(anchors[1], anchors[2], true);
-      makeCircularArc(anchors[2], anchors[3], false);
-      makeCircularArc(anchors[3], anchors[0], true);
-      result = new Path(anchors, true);
+      result = Path.fromEllipse(new Vec(cx, cy), new Vec(r, r));
     }
   } else if (tagName === "ellipse") {
     const cx = getNumberAttribute(svgNode, "cx", 0);
@@ -172,17 +154,7 @@ export const geometryFromSVGNode = (
     const rx = getNumberAttribute(svgNode, "rx", 0);
     const ry = getNumberAttribute(svgNode, "ry", 0);
     if (rx > 0 && ry > 0) {
-      const anchors = [
-        new Anchor(new Vec(cx + rx, cy)),
-        new Anchor(new Vec(cx, cy + ry)),
-        new Anchor(new Vec(cx - rx, cy)),
-        new Anchor(new Vec(cx, cy - ry)),
-      ];
-      makeCircularArc(anchors[0], anchors[1], false);
-      makeCircularArc(anchors[1], anchors[2], true);
-      makeCircularArc(anchors[2], anchors[3], false);
-      makeCircularArc(anchors[3], anchors[0], true);
-      result = new Path(anchors, true);
+      result = Path.fromEllipse(new Vec(cx, cy), new Vec(rx, ry));
     }
   } else if (tagName === "rect") {
     const x = getNumberAttribute(svgNode, "x", 0);
@@ -193,32 +165,13 @@ export const geometryFromSVGNode = (
     let ry = getNumberAttribute(svgNode, "ry", null);
     if (rx !== null && ry === null) ry = rx;
     if (ry !== null && rx === null) rx = ry;
+    const box = new BoundingBox(new Vec(x, y), new Vec(x + width, y + height));
     if (rx === null || ry === null) {
-      const anchors = [
-        new Anchor(new Vec(x, y)),
-        new Anchor(new Vec(x + width, y)),
-        new Anchor(new Vec(x + width, y + height)),
-        new Anchor(new Vec(x, y + height)),
-      ];
-      result = new Path(anchors, true);
+      result = Path.fromBoundingBox(box);
     } else {
       rx = clamp(rx, 0, width / 2);
       ry = clamp(ry, 0, height / 2);
-      const anchors = [
-        new Anchor(new Vec(x + rx, y)),
-        new Anchor(new Vec(x + width - rx, y)),
-        new Anchor(new Vec(x + width, y + ry)),
-        new Anchor(new Vec(x + width, y + height - ry)),
-        new Anchor(new Vec(x + width - rx, y + height)),
-        new Anchor(new Vec(x + rx, y + height)),
-        new Anchor(new Vec(x, y + height - ry)),
-        new Anchor(new Vec(x, y + ry)),
-      ];
-      makeCircularArc(anchors[7], anchors[0], false);
-      makeCircularArc(anchors[1], anchors[2], true);
-      makeCircularArc(anchors[3], anchors[4], false);
-      makeCircularArc(anchors[5], anchors[6], true);
-      result = new Path(anchors, true);
+      result = Path.fromRoundedRect(box, new Vec(rx, ry));
     }
   } else if (tagName === "line") {
     const x1 = getNumberAttribute(svgNode, "x1", 0);
@@ -251,6 +204,10 @@ export const geometryFromSVGNode = (
     result.assignFill(new Fill(color));
   }
 
+  if (!(result instanceof Group)) {
+    result.assignFillRule(getInheritedFillRule(svgNode));
+  }
+
   const strokeAttribute = getStringAttribute(svgNode, "stroke", null);
   if (strokeAttribute !== null && strokeAttribute !== "none") {
     const color = Color.fromCSSString(strokeAttribute);
@@ -295,7 +252,7 @@ export const pathOrShapeToSVGString = (item: Path | Shape, options?: ExportOptio
   if (!fill) {
     attrs += `fill="none" `;
   } else {
-    attrs += `fill="${fill.color.toCSSString()}" fill-rule="evenodd" `;
+    attrs += `fill="${fill.color.toCSSString()}" fill-rule="${item.fillRule}" `;
   }
   if (!stroke) {
     attrs += `stroke="none" `;
@@ -333,20 +290,25 @@ export const pathOrShapeToSVGString = (item: Path | Shape, options?: ExportOptio
     if (customAlignment && options?.useSVGPathClipping) {
       const d = item.toSVGPathString(options);
       let clipD = d;
+      let clipRule = item.fillRule;
       if (stroke.alignment === "outer") {
-        // Put a big box around it to flip positive and negative.
+        // Put a big box around it to flip positive and negative. This only
+        // works with even-odd, regardless of the item's fill rule.
         clipD = "M-1e9,-1e9 L1e9,-1e9 L1e9,1e9 L-1e9,1e9 Z " + clipD;
+        clipRule = "evenodd";
       }
       const clipId = "clip" + hashString(clipD);
       let result = "";
 
       // We draw the filled shape in the first pass.
       if (fill) {
-        result += `<path d="${d}" fill="${fill.color.toCSSString()}" fill-rule="evenodd"/>`;
+        result += `<path d="${d}" fill="${fill.color.toCSSString()}" fill-rule="${
+          item.fillRule
+        }"/>`;
       }
 
       // Then we draw the stroke at 2x width, but clipped.
-      result += `<clipPath id="${clipId}"><path d="${clipD}" clip-rule="evenodd"/></clipPath>`;
+      result += `<clipPath id="${clipId}"><path d="${clipD}" clip-rule="${clipRule}"/></clipPath>`;
       result += `<path d="${d}" clip-path="url(#${clipId})" fill="none" stroke="${stroke.color.toCSSString()}" stroke-width="${
         stroke.width * 2
       }" ${strokeAttrs}/>`;
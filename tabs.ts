@@ -0,0 +1,155 @@
+import { PathArcLengthTable } from "./arc-length";
+import { Geometry } from "./geometry";
+import { Path } from "./path";
+import { Shape } from "./shape";
+import { Vec } from "./vec";
+
+// Anchors where the direction of a path turns by more than this many degrees
+// are corners that tabs are kept away from.
+const CORNER_ANGLE = 30;
+
+// Paths get this many tabs if neither a count nor a spacing is given.
+const DEFAULT_TAB_COUNT = 4;
+
+/**
+ * Breaks each closed path of `geometry` into open paths with gaps of
+ * `options.width` between them, so that the material in the gaps holds a part
+ * in place once it's cut. Tabs are spread evenly by length along each path,
+ * either `options.count` of them or one every `options.spacing`. Open paths
+ * are returned as they are.
+ *
+ * @remarks
+ * With `avoidCorners`, which is on by default, tabs that would fall within
+ * `width` of a sharp corner are moved along the path until they're clear of
+ * it. Paths too short to fit all of their tabs get as many as fit, and paths
+ * too short for any are left closed. Paths from a Shape take the style of the
+ * Shape.
+ */
+export const addTabs = (geometry: Geometry, options: TabOptions): TabsResult => {
+  const result: TabsResult = { paths: [], tabs: [] };
+  for (let item of geometry.allShapesAndOrphanedPaths()) {
+    const paths = item instanceof Shape ? item.paths : [item];
+    for (let path of paths) {
+      if (!path.closed) {
+        result.paths.push(path.clone().copyStyle(item));
+        continue;
+      }
+      const { pieces, tabs } = tabbedPieces(path, options);
+      result.paths.push(...pieces.map((piece) => piece.copyStyle(item)));
+      result.tabs.push(...tabs);
+    }
+  }
+  return result;
+};
+
+export interface TabOptions {
+  count?: number;
+  spacing?: number;
+  width: number;
+  avoidCorners?: boolean;
+}
+
+export interface TabPlacement {
+  /** The middle of the tab */
+  position: Vec;
+  /** The path the tab was placed on */
+  path: Path;
+  /** Distance along the path from its first anchor to the middle of the tab */
+  distance: number;
+}
+
+export interface TabsResult {
+  paths: Path[];
+  tabs: TabPlacement[];
+}
+
+const tabbedPieces = (path: Path, options: TabOptions) => {
+  const { width, avoidCorners = true } = options;
+  const table = new PathArcLengthTable(path);
+  const length = table.length();
+
+  let count = options.count ?? DEFAULT_TAB_COUNT;
+  if (options.count === undefined && options.spacing !== undefined) {
+    count = Math.max(1, Math.round(length / options.spacing));
+  }
+  // Leave at least as much cut as tab between neighboring tabs.
+  count = Math.min(Math.floor(count), Math.floor(length / (2 * width)));
+  if (!(count > 0 && width > 0)) return { pieces: [path.clone()], tabs: [] };
+
+  // Corners are repeated a length before and after, since tabs wrap around.
+  const corners = avoidCorners
+    ? cornerDistances(path, table).flatMap((corner) => [corner - length, corner, corner + length])
+    : [];
+  const centers: number[] = [];
+  for (let i = 0; i < count; ++i) {
+    let center = nearestDistanceClearOfCorners(((i + 0.5) * length) / count, corners, width);
+    center = ((center % length) + length) % length;
+    // Tabs moved onto each other become one.
+    if (centers.every((other) => cyclicDistance(center, other, length) >= 2 * width)) {
+      centers.push(center);
+    }
+  }
+
+  // Cut at both edges of each tab. Splitting a closed path gives pieces in
+  // order starting from the earliest cut, and every other piece is a tab.
+  const edges = centers.flatMap((center) => [
+    { distance: center - width / 2, isTabStart: true },
+    { distance: center + width / 2, isTabStart: false },
+  ]);
+  for (let edge of edges) edge.distance = ((edge.distance % length) + length) % length;
+  edges.sort((a, b) => a.distance - b.distance);
+  const times = edges.map(({ distance }) => table.timeAtDistance(distance));
+  const pieces = path
+    .clone()
+    .splitAtTimes(times)
+    .filter((_, i) => !edges[i].isTabStart);
+
+  const tabs = centers.map((distance): TabPlacement => {
+    return { position: path.positionAtTime(table.timeAtDistance(distance)), path, distance };
+  });
+  return { pieces, tabs };
+};
+
+/**
+ * Returns the distances along `path` of anchors where the direction of the
+ * path turns by more than `CORNER_ANGLE`.
+ */
+const cornerDistances = (path: Path, table: PathArcLengthTable) => {
+  const { anchors } = path;
+  const distances: number[] = [];
+  anchors.forEach((anchor, i) => {
+    const prev = anchors[(i + anchors.length - 1) % anchors.length];
+    const next = anchors[(i + 1) % anchors.length];
+    const incoming = anchor.handleIn.isZero()
+      ? anchor.position.clone().sub(prev.position.clone().add(prev.handleOut))
+      : anchor.handleIn.clone().negate();
+    const outgoing = anchor.handleOut.isZero()
+      ? next.position.clone().add(next.handleIn).sub(anchor.position)
+      : anchor.handleOut.clone();
+    if (incoming.isZero() || outgoing.isZero()) return;
+    const angle = Math.abs(outgoing.angle() - incoming.angle()) % 360;
+    if (Math.min(angle, 360 - angle) > CORNER_ANGLE) distances.push(table.distanceAtTime(i));
+  });
+  return distances;
+};
+
+const cyclicDistance = (a: number, b: number, length: number) => {
+  const difference = Math.abs(a - b) % length;
+  return Math.min(difference, length - difference);
+};
+
+/**
+ * Returns the distance nearest to `distance` that is at least `clearance`
+ * from all of `corners`, or `distance` if there isn't one nearby.
+ */
+const nearestDistanceClearOfCorners = (distance: number, corners: number[], clearance: number) => {
+  let result = distance;
+  // Moving away from one corner can bring a tab closer to another, so
+  // repeat until it's clear of all of them.
+  for (let attempt = 0; attempt <= corners.length; ++attempt) {
+    const corner = corners.find((corner) => Math.abs(corner - result) < clearance);
+    if (corner === undefined) return result;
+    result = result < corner ? corner - clearance : corner + clearance;
+  }
+  return distance;
+};